@@ -1,23 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-interface HealthCheckResponse {
-  status: 'healthy' | 'degraded' | 'unhealthy'
-  timestamp: string
-  apiKeys: {
-    OPENAI_API_KEY: boolean
-    ANTHROPIC_API_KEY: boolean
-    GROQ_API_KEY: boolean
-  }
-  services: {
-    openai: 'available' | 'unavailable' | 'no-key'
-    anthropic: 'available' | 'unavailable' | 'no-key'
-    groq: 'available' | 'unavailable' | 'no-key'
-  }
-  environment: {
-    nodeEnv: string
-    platform: string
-  }
-}
+import { listProviders, requireProvider } from '@/lib/provider-registry'
+import { hasExplicitBaseURL } from '@/lib/provider-connections'
+import { getCircuitBreakerReport } from '@/lib/circuit-breakers'
+import { probeJudge, probeProvider } from '@/lib/health-probes'
+import { HealthCheckResponse, ModelProbeResult, ServiceStatus, JUDGE_MODEL_CONFIG } from '@/lib/types'
 
 function checkAPIKey(envKey: string): boolean {
   const value = process.env[envKey]
@@ -25,27 +11,73 @@ function checkAPIKey(envKey: string): boolean {
 }
 
 export async function GET(request: NextRequest): Promise<NextResponse<HealthCheckResponse>> {
-  const apiKeys = {
-    OPENAI_API_KEY: checkAPIKey('OPENAI_API_KEY'),
-    ANTHROPIC_API_KEY: checkAPIKey('ANTHROPIC_API_KEY'),
-    GROQ_API_KEY: checkAPIKey('GROQ_API_KEY')
+  const providers = listProviders()
+  const apiKeys: Record<string, boolean> = {}
+  const services: Record<string, ServiceStatus> = {}
+  const deep = request.nextUrl.searchParams.get('deep') === '1'
+  const circuitBreakers = getCircuitBreakerReport()
+
+  // Only the default judge is checked: its provider's key is reported even
+  // if no contestant uses it, and deep checks probe it. A panel's other
+  // judges (OpenAI or Groq models) are checked when a judge request names
+  // them, which fails with MISSING_API_KEY if their key is not set.
+  const judgeEnvKey = requireProvider(JUDGE_MODEL_CONFIG.provider).envKey
+  apiKeys[judgeEnvKey] = checkAPIKey(judgeEnvKey)
+
+  for (const descriptor of providers) {
+    if (descriptor.apiKeyOptional) {
+      // A keyless local server counts once its base URL is set, and is then
+      // assumed reachable unless a deep check fails
+      services[descriptor.provider] = hasExplicitBaseURL(descriptor) ? 'available' : 'not-configured'
+    } else {
+      apiKeys[descriptor.envKey] = checkAPIKey(descriptor.envKey)
+      services[descriptor.provider] = apiKeys[descriptor.envKey] ? 'available' : 'no-key'
+    }
+
+    // A provider that keeps failing is failed fast until its breaker resets
+    if (services[descriptor.provider] !== 'not-configured' && circuitBreakers.providers[descriptor.provider].state === 'OPEN') {
+      services[descriptor.provider] = 'circuit-open'
+    }
   }
 
-  const services = {
-    openai: apiKeys.OPENAI_API_KEY ? 'available' as const : 'no-key' as const,
-    anthropic: apiKeys.ANTHROPIC_API_KEY ? 'available' as const : 'no-key' as const,
-    groq: apiKeys.GROQ_API_KEY ? 'available' as const : 'no-key' as const
+  // Deep checks send a real completion to each configured model (cached per
+  // lib/health-probes.ts), so a revoked key or retired model shows up here
+  let probes: HealthCheckResponse['probes']
+  if (deep) {
+    const probed = providers.filter(({ provider }) => services[provider] !== 'no-key' && services[provider] !== 'not-configured')
+    const [judge, results] = await Promise.all([
+      apiKeys[judgeEnvKey] ? probeJudge() : undefined,
+      Promise.all(probed.map(descriptor => probeProvider(descriptor))),
+    ])
+
+    const providerProbes: Record<string, ModelProbeResult> = {}
+    probed.forEach(({ provider }, index) => {
+      providerProbes[provider] = results[index]
+      if (!results[index].ok && services[provider] === 'available') {
+        services[provider] = 'unavailable'
+      }
+    })
+    probes = { providers: providerProbes, judge }
   }
 
+  // An opt-in provider that was never set up does not make the app degraded
+  const expectedServices = Object.values(services).filter(status => status !== 'not-configured').length
   const availableServices = Object.values(services).filter(status => status === 'available').length
-  const status = availableServices === 3 ? 'healthy' : 
+  let status: HealthCheckResponse['status'] = availableServices === expectedServices ? 'healthy' : 
                  availableServices > 0 ? 'degraded' : 'unhealthy'
 
+  // Battles can still be fought without a verdict, but not well
+  if (probes?.judge && !probes.judge.ok && status === 'healthy') {
+    status = 'degraded'
+  }
+
   const response: HealthCheckResponse = {
     status,
     timestamp: new Date().toISOString(),
     apiKeys,
     services,
+    circuitBreakers,
+    probes,
     environment: {
       nodeEnv: process.env.NODE_ENV || 'development',
       platform: process.platform
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JudgeRequest, PositionAuditReport, isAPIError } from '@/lib/types';
+import { requireProvider } from '@/lib/provider-registry';
+import { findUnconfiguredJudge, getPanelJudges, validateJudgeRequest } from '@/lib/judge-pipeline';
+import { runPositionAudit } from '@/lib/position-audit';
+import { getCassetteMode } from '@/lib/cassettes';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+
+interface ErrorResponse {
+  error: string;
+  message: string;
+  code?: string;
+  timestamp: string;
+  retryable: boolean;
+}
+
+// Helper function to create error responses
+function createErrorResponse(
+  error: string,
+  message: string,
+  code: string = 'INTERNAL_ERROR',
+  retryable: boolean = false,
+  status: number = 500,
+  headers: Record<string, string> = {}
+): NextResponse<ErrorResponse> {
+  return NextResponse.json(
+    {
+      error,
+      message,
+      code,
+      timestamp: new Date().toISOString(),
+      retryable,
+    },
+    {
+      status,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        ...headers,
+      }
+    }
+  );
+}
+
+// Re-judge one set of pitches under every presentation order and report how
+// much the scores and winner move. Takes the same body as POST /api/judge.
+export async function POST(request: NextRequest): Promise<NextResponse<PositionAuditReport | ErrorResponse>> {
+  const receivedAt = Date.now();
+
+  const rateLimit = await checkRateLimit(request, 'audit');
+  if (rateLimit && !rateLimit.allowed) {
+    return createErrorResponse(
+      'Rate limit exceeded',
+      `Too many audit requests. Try again in ${rateLimit.retryAfter}s.`,
+      'RATE_LIMIT_ERROR',
+      true,
+      429,
+      rateLimitHeaders(rateLimit)
+    );
+  }
+
+  try {
+    const cassetteMode = getCassetteMode();
+
+    // Parse the request body
+    let body: JudgeRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      return createErrorResponse(
+        'Invalid request',
+        'Request body must be valid JSON',
+        'INVALID_JSON',
+        false,
+        400
+      );
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return createErrorResponse(
+        'Invalid request',
+        'Request body must be a JSON object',
+        'INVALID_JSON',
+        false,
+        400
+      );
+    }
+
+    // Validate required fields; the audit picks the orders itself
+    const validation = body.blindSeed !== undefined
+      ? { isValid: false, error: 'blindSeed does not apply to an audit, which judges every order' }
+      : validateJudgeRequest(body);
+    if (!validation.isValid) {
+      return createErrorResponse(
+        'Validation error',
+        validation.error || 'Invalid request data',
+        'VALIDATION_ERROR',
+        false,
+        400
+      );
+    }
+
+    // Check every judge's API key (replayed verdicts never reach a provider)
+    if (cassetteMode !== 'replay') {
+      const unconfigured = findUnconfiguredJudge(getPanelJudges(body));
+      if (unconfigured) {
+        return createErrorResponse(
+          'Configuration error',
+          `${requireProvider(unconfigured.provider).envKey} not configured for judge ${unconfigured.displayName}`,
+          'MISSING_API_KEY',
+          false,
+          500
+        );
+      }
+    }
+
+    const { usage, ...audit } = await runPositionAudit(body, { cassetteMode, signal: request.signal });
+
+    const report: PositionAuditReport = {
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...audit,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        processingTime: Date.now() - receivedAt,
+        usage,
+      },
+    };
+
+    return NextResponse.json(report, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        ...rateLimitHeaders(rateLimit),
+      },
+    });
+
+  } catch (error) {
+    if (request.signal.aborted) {
+      console.info(`Position audit cancelled by client after ${Date.now() - receivedAt}ms`);
+      return createErrorResponse(
+        'Request cancelled',
+        'The client closed the request',
+        'REQUEST_CANCELLED',
+        false,
+        499
+      );
+    }
+
+    // Every order failed; answer with the first failure
+    if (isAPIError(error) && error.code === 'CIRCUIT_BREAKER_OPEN') {
+      return createErrorResponse(
+        'Service unavailable',
+        `${error.message}, retry after ${error.details?.resetAt}`,
+        'CIRCUIT_BREAKER_OPEN',
+        false,
+        503
+      );
+    }
+
+    if (isAPIError(error) && error.code === 'CASSETTE_MISS') {
+      return createErrorResponse('Cassette not found', error.message, error.code, false, 404);
+    }
+
+    if (isAPIError(error) && error.code === 'INVALID_RESPONSE_FORMAT') {
+      return createErrorResponse('Judge response error', error.message, error.code, true, 500);
+    }
+
+    console.error('Position audit error:', error);
+
+    return createErrorResponse(
+      'Internal server error',
+      'Failed to audit the judge',
+      'INTERNAL_ERROR',
+      true,
+      500
+    );
+  }
+}
+
+export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateText } from 'ai';
-import { anthropic } from '@ai-sdk/anthropic';
-import { JudgeRequest, JudgeResponse, PitchContent, AIProvider } from '@/lib/types';
-import { getJudgePrompt, validateJudgeResponse, normalizeScores } from '@/lib/prompt-templates';
+import { JudgeRequest, JudgeResponse, JudgeWireEvent, isAPIError } from '@/lib/types';
+import { requireProvider } from '@/lib/provider-registry';
+import {
+  JudgeBattleResult,
+  findUnconfiguredJudge,
+  getPanelJudges,
+  judgeBattle,
+  validateJudgeRequest
+} from '@/lib/judge-pipeline';
+import { createAPIError } from '@/lib/error-handling';
+import { JUDGE_STREAM_CONTENT_TYPE, encodeJudgeEvent } from '@/lib/pitch-stream';
+import { CassetteMode, getCassetteMode } from '@/lib/cassettes';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
 
 interface ErrorResponse {
   error: string;
@@ -18,7 +27,8 @@ function createErrorResponse(
   message: string,
   code: string = 'INTERNAL_ERROR',
   retryable: boolean = false,
-  status: number = 500
+  status: number = 500,
+  headers: Record<string, string> = {}
 ): NextResponse<ErrorResponse> {
   return NextResponse.json(
     {
@@ -34,79 +44,95 @@ function createErrorResponse(
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'POST, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type',
+        ...headers,
       }
     }
   );
 }
 
-// Helper function to validate request
-function validateRequest(body: any): { isValid: boolean; error?: string } {
-  if (!body.concept || typeof body.concept !== 'string') {
-    return { isValid: false, error: 'Missing or invalid concept field' };
-  }
-  
-  if (!body.userGroup || typeof body.userGroup !== 'string') {
-    return { isValid: false, error: 'Missing or invalid userGroup field' };
-  }
-
-  if (!body.pitches || typeof body.pitches !== 'object') {
-    return { isValid: false, error: 'Missing or invalid pitches field' };
-  }
+function createJudgeResponse({ usage, ...verdict }: JudgeBattleResult, receivedAt: number): JudgeResponse {
+  return {
+    id: `judge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    ...verdict,
+    timestamp: new Date().toISOString(),
+    metadata: {
+      tokensUsed: usage.totalTokens,
+      processingTime: Date.now() - receivedAt,
+      confidence: verdict.panel.agreement,
+      usage,
+    },
+  };
+}
 
-  const requiredProviders: AIProvider[] = ['groq', 'openai', 'anthropic'];
-  for (const provider of requiredProviders) {
-    if (!body.pitches[provider] || typeof body.pitches[provider] !== 'string') {
-      return { isValid: false, error: `Missing or invalid pitch for ${provider}` };
-    }
-    if (body.pitches[provider].trim().length === 0) {
-      return { isValid: false, error: `Empty pitch content for ${provider}` };
-    }
-  }
+// Stream the judges' reasoning as they write it, then the verdict. Once the
+// 200 is sent, a failure arrives as an error event instead of a status code.
+// A client that hangs up (or cancels the body) stops the judges; the stream
+// is closed by then, so nothing more is enqueued.
+function createJudgeStream(
+  request: NextRequest,
+  body: JudgeRequest,
+  cassetteMode: CassetteMode,
+  receivedAt: number
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  const onClientAbort = () => abortController.abort();
+  request.signal.addEventListener('abort', onClientAbort, { once: true });
+  const cancelled = () => abortController.signal.aborted;
 
-  if (body.concept.trim().length === 0) {
-    return { isValid: false, error: 'Concept cannot be empty' };
-  }
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: JudgeWireEvent) => {
+        if (!cancelled()) {
+          controller.enqueue(encoder.encode(encodeJudgeEvent(event)));
+        }
+      };
 
-  if (body.userGroup.trim().length === 0) {
-    return { isValid: false, error: 'User group cannot be empty' };
-  }
-
-  return { isValid: true };
+      try {
+        const result = await judgeBattle(body, { cassetteMode, signal: abortController.signal, onProgress: send });
+        send({ type: 'verdict', verdict: createJudgeResponse(result, receivedAt) });
+      } catch (error) {
+        if (cancelled()) {
+          console.info(`Judge call cancelled by client after ${Date.now() - receivedAt}ms`);
+        } else {
+          console.error('Judge API error:', error);
+          send({
+            type: 'error',
+            error: isAPIError(error)
+              ? error
+              : createAPIError('JUDGE_ERROR', 'Failed to evaluate pitches', { retryable: true }),
+          });
+        }
+      } finally {
+        request.signal.removeEventListener('abort', onClientAbort);
+        if (!cancelled()) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
 }
 
-// Helper function to extract JSON from response
-function extractJSON(text: string): any {
-  // Try to find JSON in the response
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (jsonMatch) {
-    try {
-      return JSON.parse(jsonMatch[0]);
-    } catch (e) {
-      // If JSON parsing fails, try to clean it up
-      const cleaned = jsonMatch[0]
-        .replace(/```json\s*/g, '')
-        .replace(/```\s*/g, '')
-        .replace(/\n/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-      return JSON.parse(cleaned);
-    }
+export async function POST(request: NextRequest): Promise<NextResponse<JudgeResponse | ErrorResponse> | Response> {
+  const receivedAt = Date.now();
+
+  const rateLimit = await checkRateLimit(request, 'judge');
+  if (rateLimit && !rateLimit.allowed) {
+    return createErrorResponse(
+      'Rate limit exceeded',
+      `Too many judge requests. Try again in ${rateLimit.retryAfter}s.`,
+      'RATE_LIMIT_ERROR',
+      true,
+      429,
+      rateLimitHeaders(rateLimit)
+    );
   }
-  throw new Error('No valid JSON found in response');
-}
 
-export async function POST(request: NextRequest): Promise<NextResponse<JudgeResponse | ErrorResponse>> {
   try {
-    // Check for API key
-    if (!process.env.ANTHROPIC_API_KEY) {
-      return createErrorResponse(
-        'Configuration error',
-        'Anthropic API key not configured',
-        'MISSING_API_KEY',
-        false,
-        500
-      );
-    }
+    const cassetteMode = getCassetteMode();
 
     // Parse the request body
     let body: JudgeRequest;
@@ -121,9 +147,19 @@ export async function POST(request: NextRequest): Promise<NextResponse<JudgeResp
         400
       );
     }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return createErrorResponse(
+        'Invalid request',
+        'Request body must be a JSON object',
+        'INVALID_JSON',
+        false,
+        400
+      );
+    }
     
     // Validate required fields
-    const validation = validateRequest(body);
+    const validation = validateJudgeRequest(body);
     if (!validation.isValid) {
       return createErrorResponse(
         'Validation error',
@@ -134,116 +170,78 @@ export async function POST(request: NextRequest): Promise<NextResponse<JudgeResp
       );
     }
 
-    // Get the judge prompt
-    const prompt = getJudgePrompt({
-      concept: body.concept.trim(),
-      userGroup: body.userGroup.trim(),
-      pitches: {
-        groq: body.pitches.groq.trim(),
-        openai: body.pitches.openai.trim(),
-        anthropic: body.pitches.anthropic.trim(),
-      },
-    });
-
-    // Generate judgment using Anthropic Claude Opus
-    const result = await generateText({
-      model: anthropic('claude-opus-4-20250514'),
-      prompt,
-      temperature: 0.3,
-      topP: 0.9,
-      maxOutputTokens: 1024,
-    });
-
-    // Parse the response
-    let judgeResult;
-    try {
-      judgeResult = extractJSON(result.text);
-    } catch (parseError) {
-      console.error('Failed to parse judge response:', result.text);
-      return createErrorResponse(
-        'Judge response error',
-        'Failed to parse judge evaluation',
-        'PARSE_ERROR',
-        true,
-        500
-      );
+    // Check every judge's API key (replayed verdicts never reach a provider)
+    if (cassetteMode !== 'replay') {
+      const unconfigured = findUnconfiguredJudge(getPanelJudges(body));
+      if (unconfigured) {
+        return createErrorResponse(
+          'Configuration error',
+          `${requireProvider(unconfigured.provider).envKey} not configured for judge ${unconfigured.displayName}`,
+          'MISSING_API_KEY',
+          false,
+          500
+        );
+      }
     }
 
-    // Validate the judge response format
-    if (!validateJudgeResponse(judgeResult)) {
-      console.error('Invalid judge response format:', judgeResult);
-      return createErrorResponse(
-        'Judge response error',
-        'Invalid judge response format',
-        'INVALID_RESPONSE_FORMAT',
-        true,
-        500
-      );
+    // Clients that accept an event stream watch the deliberation live
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return new Response(createJudgeStream(request, body, cassetteMode, receivedAt), {
+        headers: {
+          'Content-Type': JUDGE_STREAM_CONTENT_TYPE,
+          'Cache-Control': 'no-cache',
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+          ...rateLimitHeaders(rateLimit),
+        },
+      });
     }
 
-    // Normalize scores to ensure they're within valid range
-    const normalizedScores = normalizeScores(judgeResult.scores);
-
-    // Create the final response
-    const response: JudgeResponse = {
-      id: `judge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      scores: {
-        groq: {
-          provider: 'groq',
-          score: normalizedScores.groq,
-          breakdown: {
-            marketViability: Math.round(normalizedScores.groq * 0.25),
-            innovation: Math.round(normalizedScores.groq * 0.2),
-            feasibility: Math.round(normalizedScores.groq * 0.2),
-            presentation: Math.round(normalizedScores.groq * 0.2),
-            monetization: Math.round(normalizedScores.groq * 0.15),
-          },
-          reasoning: judgeResult.reasoning || 'No specific reasoning provided for this pitch.',
-        },
-        openai: {
-          provider: 'openai',
-          score: normalizedScores.openai,
-          breakdown: {
-            marketViability: Math.round(normalizedScores.openai * 0.25),
-            innovation: Math.round(normalizedScores.openai * 0.2),
-            feasibility: Math.round(normalizedScores.openai * 0.2),
-            presentation: Math.round(normalizedScores.openai * 0.2),
-            monetization: Math.round(normalizedScores.openai * 0.15),
-          },
-          reasoning: judgeResult.reasoning || 'No specific reasoning provided for this pitch.',
-        },
-        anthropic: {
-          provider: 'anthropic',
-          score: normalizedScores.anthropic,
-          breakdown: {
-            marketViability: Math.round(normalizedScores.anthropic * 0.25),
-            innovation: Math.round(normalizedScores.anthropic * 0.2),
-            feasibility: Math.round(normalizedScores.anthropic * 0.2),
-            presentation: Math.round(normalizedScores.anthropic * 0.2),
-            monetization: Math.round(normalizedScores.anthropic * 0.15),
-          },
-          reasoning: judgeResult.reasoning || 'No specific reasoning provided for this pitch.',
-        },
-      },
-      winner: judgeResult.winner as AIProvider,
-      overallReasoning: judgeResult.reasoning || 'Judge evaluation completed successfully.',
-      timestamp: new Date().toISOString(),
-      metadata: {
-        tokensUsed: result.usage?.totalTokens || 0,
-        processingTime: Date.now(),
-        confidence: 0.8, // Default confidence score
-      },
-    };
+    const response = createJudgeResponse(
+      await judgeBattle(body, { cassetteMode, signal: request.signal }),
+      receivedAt
+    );
 
     return NextResponse.json(response, {
       headers: {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'POST, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type',
+        ...rateLimitHeaders(rateLimit),
       },
     });
 
   } catch (error) {
+    if (request.signal.aborted) {
+      console.info(`Judge call cancelled by client after ${Date.now() - receivedAt}ms`);
+      return createErrorResponse(
+        'Request cancelled',
+        'The client closed the request',
+        'REQUEST_CANCELLED',
+        false,
+        499
+      );
+    }
+
+    if (isAPIError(error) && error.code === 'CIRCUIT_BREAKER_OPEN') {
+      return createErrorResponse(
+        'Service unavailable',
+        `${error.message}, retry after ${error.details?.resetAt}`,
+        'CIRCUIT_BREAKER_OPEN',
+        false,
+        503
+      );
+    }
+
+    if (isAPIError(error) && error.code === 'CASSETTE_MISS') {
+      return createErrorResponse('Cassette not found', error.message, error.code, false, 404);
+    }
+
+    if (isAPIError(error) && error.code === 'INVALID_RESPONSE_FORMAT') {
+      return createErrorResponse('Judge response error', error.message, error.code, true, 500);
+    }
+
     console.error('Judge API error:', error);
     
     // Handle specific error types
@@ -0,0 +1,516 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PitchRequest, API_TIMEOUTS, isAPIError } from '@/lib/types';
+import { getProvider } from '@/lib/provider-registry';
+import { getPitchPrompt } from '@/lib/prompt-templates';
+import {
+  createPitchDeadline,
+  createPitchResponse,
+  openPitchStream,
+  resumePitchResponse,
+  PitchDeadline,
+  PitchStreamOptions,
+  PitchStreamPart,
+} from '@/lib/pitch-transports';
+import {
+  hasProviderCredentials,
+  resolveFallbackModels,
+  resolveGenerationParams,
+  resolveProviderConnection,
+} from '@/lib/provider-connections';
+import { getProviderBreaker } from '@/lib/circuit-breakers';
+import { getPitchGeneration } from '@/lib/pitch-generations';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { CassetteKey, getCassetteMode, loadCassette, recordPitchStream, replayPitchStream } from '@/lib/cassettes';
+
+interface ErrorResponse {
+  error: string;
+  message: string;
+  code?: string;
+  timestamp: string;
+  retryable: boolean;
+}
+
+interface RouteContext {
+  params: { provider: string };
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+// Helper function to create error responses
+function createErrorResponse(
+  error: string,
+  message: string,
+  code: string = 'INTERNAL_ERROR',
+  retryable: boolean = false,
+  status: number = 500,
+  headers: Record<string, string> = {}
+): NextResponse<ErrorResponse> {
+  return NextResponse.json(
+    {
+      error,
+      message,
+      code,
+      timestamp: new Date().toISOString(),
+      retryable,
+    },
+    {
+      status,
+      headers: { ...CORS_HEADERS, ...headers },
+    }
+  );
+}
+
+// Helper function to validate request
+function validateRequest(body: any): { isValid: boolean; error?: string } {
+  if (!body.concept || typeof body.concept !== 'string') {
+    return { isValid: false, error: 'Missing or invalid concept field' };
+  }
+
+  if (!body.userGroup || typeof body.userGroup !== 'string') {
+    return { isValid: false, error: 'Missing or invalid userGroup field' };
+  }
+
+  if (body.concept.trim().length === 0) {
+    return { isValid: false, error: 'Concept cannot be empty' };
+  }
+
+  if (body.userGroup.trim().length === 0) {
+    return { isValid: false, error: 'User group cannot be empty' };
+  }
+
+  if (body.modelConfig !== undefined && (typeof body.modelConfig !== 'object' || body.modelConfig === null || Array.isArray(body.modelConfig))) {
+    return { isValid: false, error: 'modelConfig must be an object' };
+  }
+
+  return { isValid: true };
+}
+
+// Model and overload failures are worth handing to the next model in the
+// contestant's fallback chain; auth, policy and input errors are not
+function isFallbackError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const status = (error as { statusCode?: number; status?: number }).statusCode ?? (error as { status?: number }).status;
+  if (status === 404 || status === 500 || status === 502 || status === 503 || status === 529) {
+    return true;
+  }
+
+  const message = error.message.toLowerCase();
+  return message.includes('model') || message.includes('overloaded') || message.includes('503');
+}
+
+// Try the requested model, then each fallback in order, until one starts
+// streaming. The last failure is rethrown for createProviderErrorResponse.
+async function openWithFallbacks(
+  options: PitchStreamOptions,
+  fallbackModels: string[],
+  canFallBack: () => boolean
+): Promise<{ parts: AsyncIterable<PitchStreamPart>; modelName: string }> {
+  const models = [options.params.modelName, ...fallbackModels];
+
+  for (const [index, modelName] of models.entries()) {
+    try {
+      const parts = await openPitchStream({ ...options, params: { ...options.params, modelName } });
+      return { parts, modelName };
+    } catch (error) {
+      const nextModel = models[index + 1];
+      if (!nextModel || !canFallBack() || !isFallbackError(error)) {
+        throw error;
+      }
+      console.warn(
+        `${options.descriptor.displayName} ${modelName} failed, falling back to ${nextModel}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  throw new Error('No model to try');
+}
+
+// Map SDK errors from any transport onto our error codes
+function createProviderErrorResponse(error: unknown, displayName: string): NextResponse<ErrorResponse> {
+  if (error instanceof Error) {
+    const message = error.message;
+
+    // Rate limit errors
+    if (message.includes('rate_limit') || message.includes('rate limit') || message.includes('429')) {
+      return createErrorResponse(
+        'Rate limit exceeded',
+        'Too many requests. Please try again later.',
+        'RATE_LIMIT_ERROR',
+        true,
+        429
+      );
+    }
+
+    // API key errors
+    if (
+      message.includes('401') ||
+      message.includes('unauthorized') ||
+      message.includes('invalid_api_key') ||
+      message.includes('authentication')
+    ) {
+      return createErrorResponse(
+        'Authentication error',
+        'Invalid API key configuration',
+        'AUTH_ERROR',
+        false,
+        401
+      );
+    }
+
+    // Model errors
+    if (message.includes('model') || message.includes('404')) {
+      return createErrorResponse(
+        'Model error',
+        'The specified model is not available',
+        'MODEL_ERROR',
+        false,
+        400
+      );
+    }
+
+    // Content policy errors
+    if (message.includes('content_policy') || message.includes('policy') || message.includes('harmful')) {
+      return createErrorResponse(
+        'Content policy error',
+        'Request violates content policy',
+        'CONTENT_POLICY_ERROR',
+        false,
+        400
+      );
+    }
+
+    // Network/timeout errors
+    if (
+      message.includes('timeout') ||
+      message.includes('network') ||
+      message.includes('ECONNREFUSED') ||
+      message.includes('fetch failed')
+    ) {
+      return createErrorResponse(
+        'Network error',
+        'Request timed out. Please try again.',
+        'TIMEOUT_ERROR',
+        true,
+        503
+      );
+    }
+
+    // Token limit errors
+    if (message.includes('max_tokens') || message.includes('context_length') || message.includes('context')) {
+      return createErrorResponse(
+        'Token limit error',
+        'Request exceeds maximum token limit',
+        'TOKEN_LIMIT_ERROR',
+        false,
+        400
+      );
+    }
+
+    // Server overload errors
+    if (message.includes('overloaded') || message.includes('503')) {
+      return createErrorResponse(
+        'Server overloaded',
+        'Service temporarily overloaded. Please try again.',
+        'SERVER_OVERLOAD_ERROR',
+        true,
+        503
+      );
+    }
+  }
+
+  // Generic error fallback
+  return createErrorResponse(
+    'Internal server error',
+    `Failed to generate pitch using ${displayName}`,
+    'INTERNAL_ERROR',
+    true,
+    500
+  );
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext): Promise<NextResponse | Response> {
+  const rateLimit = await checkRateLimit(request, 'pitch');
+  if (rateLimit && !rateLimit.allowed) {
+    return createErrorResponse(
+      'Rate limit exceeded',
+      `Too many pitch requests. Try again in ${rateLimit.retryAfter}s.`,
+      'RATE_LIMIT_ERROR',
+      true,
+      429,
+      rateLimitHeaders(rateLimit)
+    );
+  }
+
+  const descriptor = getProvider(params.provider);
+  if (!descriptor) {
+    return createErrorResponse(
+      'Unknown provider',
+      `No contestant is registered as "${params.provider}"`,
+      'UNKNOWN_PROVIDER',
+      false,
+      404
+    );
+  }
+
+  let deadline: PitchDeadline | undefined;
+
+  try {
+    const cassetteMode = getCassetteMode();
+
+    // Check for API key (replayed battles never reach the provider)
+    if (cassetteMode !== 'replay' && !hasProviderCredentials(descriptor)) {
+      return createErrorResponse(
+        'Configuration error',
+        `${descriptor.displayName} API key not configured (${descriptor.envKey})`,
+        'MISSING_API_KEY',
+        false,
+        500
+      );
+    }
+
+    // Parse the request body
+    let body: PitchRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      return createErrorResponse(
+        'Invalid request',
+        'Request body must be valid JSON',
+        'INVALID_JSON',
+        false,
+        400
+      );
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return createErrorResponse(
+        'Invalid request',
+        'Request body must be a JSON object',
+        'INVALID_JSON',
+        false,
+        400
+      );
+    }
+
+    // Validate required fields
+    const validation = validateRequest(body);
+    if (!validation.isValid) {
+      return createErrorResponse(
+        'Validation error',
+        validation.error || 'Invalid request data',
+        'VALIDATION_ERROR',
+        false,
+        400
+      );
+    }
+
+    // Get the prompt template for this contestant
+    const prompt = getPitchPrompt(descriptor.promptStyle, {
+      concept: body.concept.trim(),
+      userGroup: body.userGroup.trim(),
+    });
+
+    // Apply the request's model overrides within the contestant's limits
+    const connection = resolveProviderConnection(descriptor);
+    const resolved = resolveGenerationParams(descriptor, connection, body.modelConfig);
+    if (!resolved.isValid) {
+      return createErrorResponse(
+        'Validation error',
+        resolved.error,
+        'INVALID_MODEL_CONFIG',
+        false,
+        400
+      );
+    }
+    const { params: generationParams } = resolved;
+
+    const fallbacks = resolveFallbackModels(descriptor, connection, generationParams.modelName, body.fallbackModels);
+    if (!fallbacks.isValid) {
+      return createErrorResponse(
+        'Validation error',
+        fallbacks.error,
+        'INVALID_MODEL_CONFIG',
+        false,
+        400
+      );
+    }
+
+    const cassetteKey: CassetteKey = {
+      kind: 'pitch',
+      subject: descriptor.provider,
+      prompt,
+      params: generationParams,
+    };
+
+    // Cancel the upstream call when the client disconnects or a deadline passes
+    const abortController = new AbortController();
+    const upstream = new AbortController();
+    const onClientAbort = () => abortController.abort();
+    request.signal.addEventListener('abort', onClientAbort, { once: true });
+    abortController.signal.addEventListener('abort', () => upstream.abort(), { once: true });
+
+    let parts: AsyncIterable<PitchStreamPart>;
+    let servedModel = generationParams.modelName;
+    if (cassetteMode === 'replay') {
+      const cassette = await loadCassette(cassetteKey);
+      if (!cassette) {
+        return createErrorResponse(
+          'Cassette not found',
+          `No recorded pitch from ${descriptor.displayName} matches this prompt`,
+          'CASSETTE_MISS',
+          false,
+          404
+        );
+      }
+      deadline = createPitchDeadline(
+        { firstTokenMs: API_TIMEOUTS.firstToken, totalMs: API_TIMEOUTS.pitch },
+        upstream
+      );
+      servedModel = cassette.servedModel ?? servedModel;
+      parts = deadline.guard(replayPitchStream(cassette));
+    } else {
+      // Stream through the provider's transport, cut off at the deadlines.
+      // The provider's breaker counts failures to start streaming, except
+      // when the client hung up.
+      deadline = createPitchDeadline(
+        { firstTokenMs: API_TIMEOUTS.firstToken, totalMs: API_TIMEOUTS.pitch },
+        upstream
+      );
+      const activeDeadline = deadline;
+      const opened = await getProviderBreaker(descriptor.provider).execute(
+        () => openWithFallbacks(
+          { descriptor, connection, params: generationParams, prompt, signal: upstream.signal },
+          fallbacks.models,
+          () => !activeDeadline.expired && !request.signal.aborted
+        ),
+        () => !request.signal.aborted
+      ).catch(error => {
+        // No stream to guard, so the clocks would otherwise go on to abort a
+        // request that has already been answered
+        activeDeadline.clear();
+        throw error;
+      });
+      servedModel = opened.modelName;
+
+      parts = deadline.guard(opened.parts);
+      if (cassetteMode === 'record') {
+        parts = recordPitchStream(
+          cassetteKey,
+          parts,
+          servedModel !== generationParams.modelName ? servedModel : undefined
+        );
+      }
+    }
+
+    // Once streaming, a dropped connection may be resumed; the generation
+    // decides when an abandoned pitch is cancelled
+    request.signal.removeEventListener('abort', onClientAbort);
+
+    return createPitchResponse(descriptor, parts, {
+      id: `pitch_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      params: { ...generationParams, modelName: servedModel },
+      fallbackFrom: servedModel !== generationParams.modelName ? generationParams.modelName : undefined,
+      abortController,
+      headers: {
+        ...CORS_HEADERS,
+        ...rateLimitHeaders(rateLimit),
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+
+  } catch (error) {
+    if (request.signal.aborted) {
+      console.info(`${descriptor.displayName} pitch cancelled by client before streaming started`);
+      return createErrorResponse(
+        'Request cancelled',
+        'The client closed the request',
+        'REQUEST_CANCELLED',
+        false,
+        499
+      );
+    }
+
+    if (isAPIError(error) && error.code === 'CIRCUIT_BREAKER_OPEN') {
+      return createErrorResponse(
+        'Service unavailable',
+        `${error.message}, retry after ${error.details?.resetAt}`,
+        'CIRCUIT_BREAKER_OPEN',
+        false,
+        503
+      );
+    }
+
+    if (deadline?.expired) {
+      return createErrorResponse(
+        'Timeout',
+        `${descriptor.displayName} did not respond within ${API_TIMEOUTS.firstToken / 1000}s`,
+        'TIMEOUT_ERROR',
+        true,
+        504
+      );
+    }
+
+    console.error(`${descriptor.displayName} API error:`, error);
+    return createProviderErrorResponse(error, descriptor.displayName);
+  }
+}
+
+export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
+
+// Resume a pitch stream after a dropped connection: replays the generation's
+// events from `offset` (the number of events already received), then follows
+// it live
+export async function GET(request: NextRequest, { params }: RouteContext): Promise<NextResponse | Response> {
+  const generationId = request.nextUrl.searchParams.get('generationId');
+  if (!generationId) {
+    return createErrorResponse(
+      'Method not allowed',
+      'Use POST to generate a pitch, or GET with generationId and offset to resume one.',
+      'METHOD_NOT_ALLOWED',
+      false,
+      405
+    );
+  }
+
+  const generation = getPitchGeneration(generationId);
+  if (!generation || generation.provider !== params.provider) {
+    return createErrorResponse(
+      'Generation not found',
+      `No resumable pitch ${generationId} from ${params.provider}; it may have expired`,
+      'GENERATION_NOT_FOUND',
+      false,
+      404
+    );
+  }
+
+  const offset = Number(request.nextUrl.searchParams.get('offset') ?? 0);
+  if (!Number.isInteger(offset) || offset < 0 || offset > generation.events.length) {
+    return createErrorResponse(
+      'Validation error',
+      `offset must be an integer between 0 and ${generation.events.length}`,
+      'VALIDATION_ERROR',
+      false,
+      400
+    );
+  }
+
+  return resumePitchResponse(generation, offset, {
+    ...CORS_HEADERS,
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+}
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AudienceTally, isAPIError } from '@/lib/types';
+import {
+  castVote,
+  closeVoteSession,
+  createVoterId,
+  getTally,
+  getVoteSession,
+  VoteSession,
+  VOTER_COOKIE,
+  VOTER_COOKIE_MAX_AGE,
+} from '@/lib/audience-votes';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+
+interface ErrorResponse {
+  error: string;
+  message: string;
+  code?: string;
+  timestamp: string;
+  retryable: boolean;
+}
+
+interface RouteContext {
+  params: { code: string };
+}
+
+// Votes come from the voting page on the same origin, so no CORS headers
+// here: the voter cookie must not be sent cross-site
+
+// Status for each error castVote throws
+const VOTE_ERROR_STATUS: Record<string, number> = {
+  UNKNOWN_SLOT: 400,
+  ALREADY_VOTED: 409,
+  VOTING_CLOSED: 410,
+  SESSION_FULL: 429,
+};
+
+// Helper function to create error responses
+function createErrorResponse(
+  error: string,
+  message: string,
+  code: string = 'INTERNAL_ERROR',
+  retryable: boolean = false,
+  status: number = 500,
+  headers: Record<string, string> = {}
+): NextResponse<ErrorResponse> {
+  return NextResponse.json(
+    {
+      error,
+      message,
+      code,
+      timestamp: new Date().toISOString(),
+      retryable,
+    },
+    {
+      status,
+      headers: { 'Cache-Control': 'no-store', ...headers },
+    }
+  );
+}
+
+function sessionNotFound(code: string): NextResponse<ErrorResponse> {
+  return createErrorResponse(
+    'Session not found',
+    `No voting session ${code.toUpperCase()}; it may have expired`,
+    'SESSION_NOT_FOUND',
+    false,
+    404
+  );
+}
+
+function createTallyResponse(session: VoteSession, voterId?: string, status: number = 200): NextResponse<AudienceTally> {
+  return NextResponse.json(getTally(session, voterId), {
+    status,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+// The tally so far, with this device's vote if it has voted
+export async function GET(request: NextRequest, { params }: RouteContext): Promise<NextResponse<AudienceTally | ErrorResponse>> {
+  const session = getVoteSession(params.code);
+  if (!session) {
+    return sessionNotFound(params.code);
+  }
+
+  return createTallyResponse(session, request.cookies.get(VOTER_COOKIE)?.value);
+}
+
+// Cast this device's vote: { "slot": "<slot id>" }. A device without a voter
+// cookie is given one; dropping it is only held back by the ballot rate limit,
+// which the voting page waits out (Retry-After) before sending the vote again.
+export async function POST(request: NextRequest, { params }: RouteContext): Promise<NextResponse<AudienceTally | ErrorResponse>> {
+  const rateLimit = await checkRateLimit(request, 'ballot');
+  if (rateLimit && !rateLimit.allowed) {
+    return createErrorResponse(
+      'Rate limit exceeded',
+      `Too many votes from this network. Try again in ${rateLimit.retryAfter}s.`,
+      'RATE_LIMIT_ERROR',
+      true,
+      429,
+      rateLimitHeaders(rateLimit)
+    );
+  }
+
+  const session = getVoteSession(params.code);
+  if (!session) {
+    return sessionNotFound(params.code);
+  }
+
+  let body: { slot?: unknown };
+  try {
+    body = await request.json();
+  } catch (parseError) {
+    return createErrorResponse(
+      'Invalid request',
+      'Request body must be valid JSON',
+      'INVALID_JSON',
+      false,
+      400
+    );
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return createErrorResponse('Invalid request', 'Request body must be a JSON object', 'INVALID_JSON', false, 400);
+  }
+
+  const { slot } = body;
+  if (typeof slot !== 'string') {
+    return createErrorResponse('Validation error', 'Missing or invalid slot field', 'VALIDATION_ERROR', false, 400);
+  }
+
+  const existingVoterId = request.cookies.get(VOTER_COOKIE)?.value;
+  const voterId = existingVoterId ?? createVoterId();
+
+  try {
+    castVote(session, voterId, slot);
+  } catch (error) {
+    if (isAPIError(error) && error.code in VOTE_ERROR_STATUS) {
+      return createErrorResponse('Vote rejected', error.message, error.code, false, VOTE_ERROR_STATUS[error.code]);
+    }
+
+    console.error('Vote error:', error);
+
+    return createErrorResponse(
+      'Internal server error',
+      'Failed to record the vote',
+      'INTERNAL_ERROR',
+      true,
+      500
+    );
+  }
+
+  const response = createTallyResponse(session, voterId, 201);
+  if (!existingVoterId) {
+    response.cookies.set(VOTER_COOKIE, voterId, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: VOTER_COOKIE_MAX_AGE,
+    });
+  }
+  return response;
+}
+
+// Close voting early: { "open": false }, with the host token from POST
+// /api/vote as Authorization: Bearer <hostToken>
+export async function PATCH(request: NextRequest, { params }: RouteContext): Promise<NextResponse<AudienceTally | ErrorResponse>> {
+  const session = getVoteSession(params.code);
+  if (!session) {
+    return sessionNotFound(params.code);
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${session.hostToken}`) {
+    return createErrorResponse(
+      'Forbidden',
+      'Only the host that opened this session can close it',
+      'FORBIDDEN',
+      false,
+      403
+    );
+  }
+
+  let body: { open?: unknown };
+  try {
+    body = await request.json();
+  } catch (parseError) {
+    return createErrorResponse(
+      'Invalid request',
+      'Request body must be valid JSON',
+      'INVALID_JSON',
+      false,
+      400
+    );
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return createErrorResponse('Invalid request', 'Request body must be a JSON object', 'INVALID_JSON', false, 400);
+  }
+
+  if (body.open !== false) {
+    return createErrorResponse(
+      'Validation error',
+      'open must be false; a closed session cannot be reopened',
+      'VALIDATION_ERROR',
+      false,
+      400
+    );
+  }
+
+  closeVoteSession(session);
+  return createTallyResponse(session);
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VoteSessionCreated, VoteSessionRequest, isAPIError } from '@/lib/types';
+import { getTally, openVoteSession, validateVoteSessionRequest } from '@/lib/audience-votes';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+
+interface ErrorResponse {
+  error: string;
+  message: string;
+  code?: string;
+  timestamp: string;
+  retryable: boolean;
+}
+
+// Helper function to create error responses
+function createErrorResponse(
+  error: string,
+  message: string,
+  code: string = 'INTERNAL_ERROR',
+  retryable: boolean = false,
+  status: number = 500,
+  headers: Record<string, string> = {}
+): NextResponse<ErrorResponse> {
+  return NextResponse.json(
+    {
+      error,
+      message,
+      code,
+      timestamp: new Date().toISOString(),
+      retryable,
+    },
+    {
+      status,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        ...headers,
+      }
+    }
+  );
+}
+
+// Open an audience voting session for a battle's pitches. The response is
+// the only place the host token appears.
+export async function POST(request: NextRequest): Promise<NextResponse<VoteSessionCreated | ErrorResponse>> {
+  const rateLimit = await checkRateLimit(request, 'vote');
+  if (rateLimit && !rateLimit.allowed) {
+    return createErrorResponse(
+      'Rate limit exceeded',
+      `Too many voting sessions opened. Try again in ${rateLimit.retryAfter}s.`,
+      'RATE_LIMIT_ERROR',
+      true,
+      429,
+      rateLimitHeaders(rateLimit)
+    );
+  }
+
+  // Parse the request body
+  let body: VoteSessionRequest;
+  try {
+    body = await request.json();
+  } catch (parseError) {
+    return createErrorResponse(
+      'Invalid request',
+      'Request body must be valid JSON',
+      'INVALID_JSON',
+      false,
+      400
+    );
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return createErrorResponse(
+      'Invalid request',
+      'Request body must be a JSON object',
+      'INVALID_JSON',
+      false,
+      400
+    );
+  }
+
+  const validation = validateVoteSessionRequest(body);
+  if (!validation.isValid) {
+    return createErrorResponse(
+      'Validation error',
+      validation.error || 'Invalid request data',
+      'VALIDATION_ERROR',
+      false,
+      400
+    );
+  }
+
+  try {
+    const session = openVoteSession(body);
+
+    // Attendees need an address their phones can reach; set
+    // AUDIENCE_VOTE_BASE_URL when the host browses on localhost
+    const baseURL = process.env.AUDIENCE_VOTE_BASE_URL?.trim().replace(/\/+$/, '') || request.nextUrl.origin;
+
+    return NextResponse.json(
+      {
+        ...getTally(session),
+        url: `${baseURL}/vote/${session.code}`,
+        hostToken: session.hostToken,
+      },
+      {
+        status: 201,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+          ...rateLimitHeaders(rateLimit),
+        },
+      }
+    );
+  } catch (error) {
+    if (isAPIError(error) && error.code === 'TOO_MANY_SESSIONS') {
+      return createErrorResponse('Service unavailable', error.message, error.code, true, 503);
+    }
+
+    console.error('Vote session error:', error);
+
+    return createErrorResponse(
+      'Internal server error',
+      'Failed to open a voting session',
+      'INTERNAL_ERROR',
+      true,
+      500
+    );
+  }
+}
+
+export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -5,36 +5,77 @@ import { SpinningWheels } from "@/components/spinning-wheels"
 import { CombinationDisplay } from "@/components/combination-display"
 import { BattleArena } from "@/components/battle-arena"
 import { JudgeVerdict } from "@/components/judge-verdict"
+import { ContestantPicker } from "@/components/contestant-picker"
+import { CriteriaWeights } from "@/components/criteria-weights"
+import { JudgePanelPicker } from "@/components/judge-panel-picker"
+import {
+  ContestantSlot,
+  JudgePanelConfig,
+  JudgingCriteria,
+  JudgingMode,
+  PitchContent,
+  PitchResults,
+  TieBreakRule,
+  CONTESTANT_LIMITS,
+  DEFAULT_JUDGE_PANEL,
+  DEFAULT_JUDGING_CRITERIA
+} from "@/lib/types"
+import { getDefaultSlots } from "@/lib/provider-registry"
 
 type AppState =
   | { phase: "spinning" }
-  | { phase: "revealing"; concept: string; userGroup: string }
-  | { phase: "battling"; concept: string; userGroup: string }
+  | { phase: "revealing"; concept: string; userGroup: string; contestants: ContestantSlot[]; criteria: JudgingCriteria; panel: JudgePanelConfig; blind: boolean; mode: JudgingMode; tieBreak: TieBreakRule; audience: boolean }
+  | { phase: "battling"; concept: string; userGroup: string; contestants: ContestantSlot[]; criteria: JudgingCriteria; panel: JudgePanelConfig; blind: boolean; mode: JudgingMode; tieBreak: TieBreakRule; audience: boolean }
   | {
       phase: "judging"
       concept: string
       userGroup: string
-      pitches: { groq: string; openai: string; anthropic: string }
+      contestants: ContestantSlot[]
+      criteria: JudgingCriteria
+      panel: JudgePanelConfig
+      blind: boolean
+      mode: JudgingMode
+      tieBreak: TieBreakRule
+      audience: boolean
+      pitches: PitchContent
+      pitchResults: PitchResults
     }
 
 export default function HomePage() {
   const [appState, setAppState] = useState<AppState>({ phase: "spinning" })
+  const [contestants, setContestants] = useState<ContestantSlot[]>(() =>
+    getDefaultSlots().slice(0, CONTESTANT_LIMITS.max)
+  )
+  const [criteria, setCriteria] = useState<JudgingCriteria>(DEFAULT_JUDGING_CRITERIA)
+  const [panel, setPanel] = useState<JudgePanelConfig>(DEFAULT_JUDGE_PANEL)
+  const [blind, setBlind] = useState(false)
+  const [mode, setMode] = useState<JudgingMode>("scorecard")
+  const [tieBreak, setTieBreak] = useState<TieBreakRule>("declared")
+  const [audience, setAudience] = useState(false)
 
   const handleSpinComplete = useCallback((concept: string, userGroup: string) => {
-    setAppState({ phase: "revealing", concept, userGroup })
+    setAppState({ phase: "revealing", concept, userGroup, contestants, criteria, panel, blind, mode, tieBreak, audience })
     setTimeout(() => {
-      setAppState({ phase: "battling", concept, userGroup })
+      setAppState({ phase: "battling", concept, userGroup, contestants, criteria, panel, blind, mode, tieBreak, audience })
     }, 2000)
-  }, [])
+  }, [contestants, criteria, panel, blind, mode, tieBreak, audience])
 
-  const handlePitchesComplete = useCallback((pitches: { groq: string; openai: string; anthropic: string }) => {
+  const handlePitchesComplete = useCallback((pitches: PitchContent, pitchResults: PitchResults) => {
     setAppState((prevState) => {
       if (prevState.phase === "battling") {
         return {
           phase: "judging",
           concept: prevState.concept,
           userGroup: prevState.userGroup,
+          contestants: prevState.contestants,
+          criteria: prevState.criteria,
+          panel: prevState.panel,
+          blind: prevState.blind,
+          mode: prevState.mode,
+          tieBreak: prevState.tieBreak,
+          audience: prevState.audience,
           pitches,
+          pitchResults,
         }
       }
       return prevState
@@ -65,7 +106,21 @@ export default function HomePage() {
 
         {/* Spinning Wheels Section */}
         {appState.phase === "spinning" && (
-          <div className="min-h-[30vh] flex items-center justify-center">
+          <div className="min-h-[30vh] flex flex-col items-center justify-center gap-8">
+            <ContestantPicker contestants={contestants} onChange={setContestants} />
+            <CriteriaWeights criteria={criteria} onChange={setCriteria} />
+            <JudgePanelPicker
+              panel={panel}
+              onChange={setPanel}
+              blind={blind}
+              onBlindChange={setBlind}
+              mode={mode}
+              onModeChange={setMode}
+              tieBreak={tieBreak}
+              onTieBreakChange={setTieBreak}
+              audience={audience}
+              onAudienceChange={setAudience}
+            />
             <SpinningWheels onSpinComplete={handleSpinComplete} />
           </div>
         )}
@@ -84,6 +139,7 @@ export default function HomePage() {
               key={`${appState.concept}-${appState.userGroup}`}
               concept={appState.concept}
               userGroup={appState.userGroup}
+              contestants={appState.contestants}
               onPitchesComplete={handlePitchesComplete}
               readonly={appState.phase === "judging"}
             />
@@ -96,6 +152,13 @@ export default function HomePage() {
             <JudgeVerdict
               key={`${appState.concept}-${appState.userGroup}-verdict`}
               pitches={appState.pitches}
+              pitchResults={appState.pitchResults}
+              criteria={appState.criteria}
+              panel={appState.panel}
+              blind={appState.blind}
+              mode={appState.mode}
+              tieBreak={appState.tieBreak}
+              audience={appState.audience}
               concept={appState.concept}
               userGroup={appState.userGroup}
               onReset={handleReset}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { AudienceTally, SlotId } from "@/lib/types"
+import { getProvider, getSlotDisplayName, parseSlotId } from "@/lib/provider-registry"
+
+const TALLY_POLL_MS = 3000
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Where attendees vote from their phones: /vote/<code>, as shown on the host
+// screen. One vote per device; the server keeps track with a cookie.
+export default function VotePage({ params }: { params: { code: string } }) {
+  const [tally, setTally] = useState<AudienceTally | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [queued, setQueued] = useState(false)
+
+  const loadTally = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/vote/${encodeURIComponent(params.code)}`, { cache: "no-store" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.message ?? `Vote API error: ${response.status}`)
+      }
+      setTally(data)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error")
+    }
+  }, [params.code])
+
+  useEffect(() => {
+    loadTally()
+  }, [loadTally])
+
+  // After voting, watch the counts until voting closes
+  const watching = !!tally?.myVote && tally.open
+  useEffect(() => {
+    if (!watching) return
+    const interval = setInterval(loadTally, TALLY_POLL_MS)
+    return () => clearInterval(interval)
+  }, [watching, loadTally])
+
+  const vote = async (slot: SlotId) => {
+    setSubmitting(true)
+    try {
+      for (;;) {
+        const response = await fetch(`/api/vote/${encodeURIComponent(params.code)}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ slot }),
+        })
+        const data = await response.json()
+
+        // A room voting at once from one network can run past the ballot
+        // rate limit: wait as told, plus a random share so the held-back
+        // votes do not all come back together, and send it again
+        if (response.status === 429 && data?.code === "RATE_LIMIT_ERROR") {
+          const retryAfter = Number(response.headers.get("Retry-After")) || 1
+          setQueued(true)
+          await sleep((retryAfter + Math.random() * retryAfter) * 1000)
+          continue
+        }
+
+        if (!response.ok) {
+          throw new Error(data?.message ?? `Vote API error: ${response.status}`)
+        }
+        setTally(data)
+        setError(null)
+        return
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error")
+      loadTally()
+    } finally {
+      setQueued(false)
+      setSubmitting(false)
+    }
+  }
+
+  const getModelName = (key: SlotId) => {
+    const slot = parseSlotId(key)
+    return slot ? getSlotDisplayName(slot) : key
+  }
+
+  const getModelColor = (key: SlotId) => {
+    const slot = parseSlotId(key)
+    return (slot && getProvider(slot.provider)?.color) ?? "gray"
+  }
+
+  const canVote = !!tally && tally.open && !tally.myVote
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 flex items-center justify-center p-4">
+      <Card className="bg-gray-900/80 border-yellow-400/50 p-6 w-full max-w-md space-y-6">
+        <div className="text-center">
+          <div className="text-4xl mb-2">🗳️</div>
+          <h1 className="text-2xl font-bold text-yellow-400">AUDIENCE VOTE</h1>
+          {tally && (
+            <p className="text-gray-300">
+              {tally.concept} for {tally.userGroup}
+            </p>
+          )}
+        </div>
+
+        {error && <div className="text-sm text-red-400 text-center">⚠️ {error}</div>}
+        {queued && <div className="text-sm text-yellow-400 text-center">Lots of votes at once, sending yours...</div>}
+
+        {tally && (
+          <>
+            <div className="text-sm text-gray-400 text-center">
+              {canVote
+                ? "Which pitch would you fund?"
+                : tally.myVote
+                  ? `You voted for ${getModelName(tally.myVote)}.`
+                  : "Voting has closed."}
+            </div>
+
+            <div className="space-y-3">
+              {tally.slots.map(slot => (
+                <Button
+                  key={slot}
+                  onClick={() => vote(slot)}
+                  disabled={!canVote || submitting}
+                  className={`w-full py-6 text-lg font-bold rounded-xl border bg-transparent border-${getModelColor(slot)}-400 text-${getModelColor(slot)}-400 hover:bg-${getModelColor(slot)}-400/10 ${
+                    tally.myVote === slot ? `bg-${getModelColor(slot)}-400/20` : ""
+                  }`}
+                >
+                  {getModelName(slot)}
+                  {!canVote && <span className="ml-auto text-sm text-gray-300">{tally.votes[slot]}</span>}
+                </Button>
+              ))}
+            </div>
+
+            {!canVote && (
+              <div className="text-xs text-gray-500 text-center">
+                {tally.totalVotes} {tally.totalVotes === 1 ? "vote" : "votes"} so far
+              </div>
+            )}
+          </>
+        )}
+
+        {!tally && !error && <div className="text-sm text-gray-400 text-center">Loading...</div>}
+      </Card>
+    </div>
+  )
+}
@@ -7,6 +7,9 @@ import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Progress } from '@/components/ui/progress'
+import { listProviders, getProviderIds } from '@/lib/provider-registry'
+import { readPitchEvents } from '@/lib/pitch-stream'
+import { APIError, HealthCheckResponse } from '@/lib/types'
 import { 
   CheckCircle, 
   XCircle, 
@@ -32,51 +35,69 @@ interface APITestResult {
   error?: string
 }
 
-interface APIKeyStatus {
-  OPENAI_API_KEY: boolean
-  ANTHROPIC_API_KEY: boolean
-  GROQ_API_KEY: boolean
-}
+// Keyed by env var name, e.g. GROQ_API_KEY
+type APIKeyStatus = Record<string, boolean>
 
 const TEST_ENDPOINTS = [
-  { name: 'OpenAI Pitch', provider: 'openai', url: '/api/pitch/openai', key: 'OPENAI_API_KEY' },
-  { name: 'Anthropic Pitch', provider: 'anthropic', url: '/api/pitch/anthropic', key: 'ANTHROPIC_API_KEY' },
-  { name: 'Groq Pitch', provider: 'groq', url: '/api/pitch/groq', key: 'GROQ_API_KEY' },
-  { name: 'Judge API', provider: 'judge', url: '/api/judge', key: 'ANTHROPIC_API_KEY' }
+  ...listProviders().map(descriptor => ({
+    name: `${descriptor.displayName} Pitch`,
+    provider: descriptor.provider,
+    url: `/api/pitch/${descriptor.provider}`,
+    key: descriptor.envKey,
+    keyOptional: !!descriptor.apiKeyOptional
+  })),
+  { name: 'Judge API', provider: 'judge', url: '/api/judge', key: 'ANTHROPIC_API_KEY', keyOptional: false }
 ]
 
+const EMPTY_API_KEY_STATUS: APIKeyStatus = Object.fromEntries(
+  TEST_ENDPOINTS.filter(endpoint => !endpoint.keyOptional).map(endpoint => [endpoint.key, false])
+)
+
 export function APITestPanel() {
   const [testResults, setTestResults] = useState<APITestResult[]>([])
   const [isRunning, setIsRunning] = useState(false)
-  const [apiKeyStatus, setApiKeyStatus] = useState<APIKeyStatus>({
-    OPENAI_API_KEY: false,
-    ANTHROPIC_API_KEY: false,
-    GROQ_API_KEY: false
-  })
+  const [apiKeyStatus, setApiKeyStatus] = useState<APIKeyStatus>(EMPTY_API_KEY_STATUS)
   const [currentTest, setCurrentTest] = useState(0)
   const [showDetails, setShowDetails] = useState<Record<string, boolean>>({})
+  const [probes, setProbes] = useState<HealthCheckResponse['probes']>()
+  const [isProbing, setIsProbing] = useState(false)
 
   // Check API key status on component mount
   useEffect(() => {
     checkApiKeyStatus()
   }, [])
 
+  // Deep check: the server sends a minimal completion to each configured
+  // model, so a key that is set but revoked shows up as a failed probe
   const checkApiKeyStatus = async () => {
+    setIsProbing(true)
     try {
-      const response = await fetch('/api/health')
+      const response = await fetch('/api/health?deep=1')
       if (response.ok) {
-        const data = await response.json()
-        setApiKeyStatus(data.apiKeys || {
-          OPENAI_API_KEY: false,
-          ANTHROPIC_API_KEY: false,
-          GROQ_API_KEY: false
-        })
+        const data: HealthCheckResponse = await response.json()
+        setApiKeyStatus(data.apiKeys || EMPTY_API_KEY_STATUS)
+        setProbes(data.probes)
       }
     } catch (error) {
       console.warn('Could not check API key status:', error)
+    } finally {
+      setIsProbing(false)
     }
   }
 
+  const probeRows = probes
+    ? [
+        ...TEST_ENDPOINTS.filter(endpoint => endpoint.provider !== 'judge').map(endpoint => ({
+          name: endpoint.name,
+          probe: probes.providers[endpoint.provider]
+        })),
+        { name: 'Judge API', probe: probes.judge }
+      ]
+    : []
+
+  const hasApiKey = (endpoint: typeof TEST_ENDPOINTS[0]) =>
+    endpoint.keyOptional || !!apiKeyStatus[endpoint.key]
+
   const testEndpoint = async (endpoint: typeof TEST_ENDPOINTS[0]): Promise<APITestResult> => {
     const startTime = Date.now()
     
@@ -85,11 +106,9 @@ export function APITestPanel() {
       body = {
         concept: 'Test App',
         userGroup: 'Test Users',
-        pitches: {
-          groq: 'Test pitch 1',
-          openai: 'Test pitch 2',
-          anthropic: 'Test pitch 3'
-        }
+        pitches: Object.fromEntries(
+          getProviderIds().map((provider, index) => [provider, `Test pitch ${index + 1}`])
+        )
       }
     } else {
       body = {
@@ -111,6 +130,7 @@ export function APITestPanel() {
       let responseData
       let hasContent = false
       let isMockData = false
+      let streamError: APIError | undefined
 
       if (contentType?.includes('application/json')) {
         responseData = await response.json()
@@ -118,21 +138,28 @@ export function APITestPanel() {
         isMockData = responseData.model?.includes('mock') || 
                     responseData.pitch?.includes('Mock') ||
                     responseData.content?.includes('Mock')
-      } else if (contentType?.includes('text/plain')) {
-        // Streaming response
-        hasContent = true
-        responseData = 'Streaming response detected'
+      } else if (contentType?.includes('text/event-stream') && response.body) {
+        // Pitch stream: read it through so mid-stream errors are reported
+        for await (const event of readPitchEvents(response.body)) {
+          if (event.type === 'text-delta') {
+            hasContent = true
+          } else if (event.type === 'error') {
+            streamError = event.error
+          }
+        }
       }
 
       const result: APITestResult = {
         endpoint: endpoint.name,
         provider: endpoint.provider,
-        status: response.ok ? 'success' : 'error',
+        status: response.ok && !streamError ? 'success' : 'error',
         httpStatus: response.status,
         responseTime,
-        hasApiKey: apiKeyStatus[endpoint.key as keyof APIKeyStatus],
+        hasApiKey: hasApiKey(endpoint),
         isMockData,
-        message: response.ok 
+        message: streamError
+          ? `Stream failed: ${streamError.message}`
+          : response.ok
           ? (isMockData ? 'Mock data returned (fallback working)' : hasContent ? 'Real API response' : 'No content')
           : responseData?.message || `HTTP ${response.status}`
       }
@@ -144,7 +171,7 @@ export function APITestPanel() {
         provider: endpoint.provider,
         status: 'error',
         responseTime: Date.now() - startTime,
-        hasApiKey: apiKeyStatus[endpoint.key as keyof APIKeyStatus],
+        hasApiKey: hasApiKey(endpoint),
         error: error instanceof Error ? error.message : 'Unknown error'
       }
     }
@@ -160,7 +187,7 @@ export function APITestPanel() {
       endpoint: endpoint.name,
       provider: endpoint.provider,
       status: 'pending',
-      hasApiKey: apiKeyStatus[endpoint.key as keyof APIKeyStatus]
+      hasApiKey: hasApiKey(endpoint)
     }))
     setTestResults(initialResults)
 
@@ -409,6 +436,50 @@ export function APITestPanel() {
                 </Card>
               ))}
             </div>
+            <div className="flex items-center justify-between pt-2">
+              <h3 className="font-medium text-white">Model Probes</h3>
+              <Button variant="ghost" size="sm" onClick={checkApiKeyStatus} disabled={isProbing}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isProbing ? 'animate-spin' : ''}`} />
+                Re-check
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {probeRows.map(({ name, probe }) => (
+                <Card key={name} className="p-4 bg-gray-900/50 border-gray-700">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      {!probe ? (
+                        <div className="w-5 h-5 rounded-full bg-gray-400" />
+                      ) : probe.ok ? (
+                        <CheckCircle className="w-5 h-5 text-green-500" />
+                      ) : (
+                        <XCircle className="w-5 h-5 text-red-500" />
+                      )}
+                      <span className="font-medium text-white">{name}</span>
+                      {probe && (
+                        <span className="text-sm text-gray-400">
+                          {probe.model}
+                          {probe.resolvedModel && probe.resolvedModel !== probe.model && ` → ${probe.resolvedModel}`}
+                        </span>
+                      )}
+                    </div>
+                    {!probe ? (
+                      <Badge variant="secondary">Not probed</Badge>
+                    ) : probe.ok ? (
+                      <span className="text-sm text-gray-400">{probe.latencyMs}ms</span>
+                    ) : (
+                      <Badge variant="destructive">{probe.errorCode}</Badge>
+                    )}
+                  </div>
+                  {probe && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Checked {new Date(probe.checkedAt).toLocaleTimeString()}
+                    </p>
+                  )}
+                </Card>
+              ))}
+            </div>
           </TabsContent>
 
           <TabsContent value="details" className="space-y-4">
@@ -436,7 +507,9 @@ export function APITestPanel() {
                     </div>
                     <div>
                       <span className="text-gray-400">Required Key:</span>
-                      <span className="ml-2 text-orange-400">{endpoint.key}</span>
+                      <span className="ml-2 text-orange-400">
+                        {endpoint.key}{endpoint.keyOptional && ' (optional)'}
+                      </span>
                     </div>
                   </div>
                 </Card>
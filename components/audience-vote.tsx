@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { AudienceTally, SlotId, VoteSessionCreated } from "@/lib/types"
+import { getProvider, getSlotDisplayName, parseSlotId } from "@/lib/provider-registry"
+
+interface AudienceVoteProps {
+  concept: string
+  userGroup: string
+  slots: SlotId[]
+  judgeWinners: SlotId[] // empty while the judges deliberate
+}
+
+const VOTE_POLL_MS = 2000
+
+// The host's side of an audience vote: opens a session for the battle, shows
+// the voting URL and the live counts, and once the judges are done, how the
+// room's pick compares with theirs. Voting is closed when the battle is left.
+export function AudienceVote({ concept, userGroup, slots, judgeWinners }: AudienceVoteProps) {
+  const [session, setSession] = useState<VoteSessionCreated | null>(null)
+  const [tally, setTally] = useState<AudienceTally | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const started = useRef(false)
+  const sessionRef = useRef<VoteSessionCreated | null>(null)
+
+  useEffect(() => {
+    if (started.current) return
+    started.current = true
+
+    const openSession = async () => {
+      try {
+        const response = await fetch("/api/vote", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ concept, userGroup, slots }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data?.message ?? `Vote API error: ${response.status}`)
+        }
+        sessionRef.current = data
+        setSession(data)
+        setTally(data)
+      } catch (err) {
+        console.error("Failed to open audience vote:", err)
+        setError(err instanceof Error ? err.message : "Unknown error")
+      }
+    }
+
+    openSession()
+  }, [concept, userGroup, slots])
+
+  // Close voting on BATTLE AGAIN; keepalive lets the request outlive the page
+  useEffect(
+    () => () => {
+      if (sessionRef.current) closeVoting(sessionRef.current, true)
+    },
+    []
+  )
+
+  // Follow the counts while voting is open
+  const code = session?.code
+  const open = tally?.open ?? false
+  useEffect(() => {
+    if (!code || !open) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/vote/${code}`, { cache: "no-store" })
+        if (response.ok) setTally(await response.json())
+      } catch (err) {
+        console.warn("Failed to refresh audience votes:", err)
+      }
+    }, VOTE_POLL_MS)
+    return () => clearInterval(interval)
+  }, [code, open])
+
+  const closeVoting = async (target: VoteSessionCreated, keepalive = false) => {
+    try {
+      const response = await fetch(`/api/vote/${target.code}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${target.hostToken}` },
+        body: JSON.stringify({ open: false }),
+        keepalive,
+      })
+      if (response.ok && !keepalive) setTally(await response.json())
+    } catch (err) {
+      console.warn("Failed to close audience vote:", err)
+    }
+  }
+
+  const getModelName = (key: SlotId) => {
+    const slot = parseSlotId(key)
+    return slot ? getSlotDisplayName(slot) : key
+  }
+
+  const getModelColor = (key: SlotId) => {
+    const slot = parseSlotId(key)
+    return (slot && getProvider(slot.provider)?.color) ?? "gray"
+  }
+
+  if (error) {
+    return <div className="text-xs text-gray-500 text-center mb-6">Audience vote unavailable: {error}</div>
+  }
+
+  if (!session || !tally) {
+    return <div className="text-xs text-gray-500 text-center mb-6">Opening the audience vote...</div>
+  }
+
+  const mostVotes = Math.max(...tally.slots.map(slot => tally.votes[slot]))
+  const audienceWinners = tally.totalVotes > 0 ? tally.slots.filter(slot => tally.votes[slot] === mostVotes) : []
+  const agrees = audienceWinners.length > 0 && audienceWinners.some(slot => judgeWinners.includes(slot))
+
+  return (
+    <div className="border border-yellow-400/30 rounded-lg p-4 mb-6 space-y-3">
+      <div className="text-center">
+        <div className="text-sm text-gray-400">🗳️ AUDIENCE VOTE {tally.open ? "OPEN" : "CLOSED"}</div>
+        {tally.open && (
+          <div className="font-mono text-lg text-yellow-400 break-all">{session.url}</div>
+        )}
+        <div className="text-xs text-gray-500">
+          {tally.totalVotes} {tally.totalVotes === 1 ? "vote" : "votes"}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {tally.slots.map(slot => (
+          <div key={slot} className="flex items-center gap-4 text-sm">
+            <div className={`w-32 text-${getModelColor(slot)}-400 font-bold`}>{getModelName(slot)}</div>
+            <div className="flex-1 bg-gray-700 rounded-full h-3 overflow-hidden">
+              <div
+                className={`h-full bg-${getModelColor(slot)}-400 transition-all duration-500`}
+                style={{ width: `${tally.totalVotes > 0 ? (tally.votes[slot] / tally.totalVotes) * 100 : 0}%` }}
+              />
+            </div>
+            <div className="w-20 text-right text-gray-300">
+              {tally.votes[slot]} ({tally.totalVotes > 0 ? Math.round((tally.votes[slot] / tally.totalVotes) * 100) : 0}%)
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {judgeWinners.length > 0 && (
+        <div className="text-center space-y-1">
+          <div className="text-gray-300 font-bold text-sm">AI JUDGE vs. AUDIENCE</div>
+          <div className="text-xs text-gray-400">
+            Judge: {judgeWinners.map(getModelName).join(" and ")} · Audience:{" "}
+            {audienceWinners.length > 0 ? `${audienceWinners.map(getModelName).join(" and ")} (${mostVotes} ${mostVotes === 1 ? "vote" : "votes"})` : "no votes yet"}
+          </div>
+          {audienceWinners.length > 0 && (
+            <div className={`text-sm font-bold ${agrees ? "text-green-400" : "text-orange-400"}`}>
+              {agrees ? "The room agrees with the judge!" : "The room disagrees with the judge!"}
+            </div>
+          )}
+        </div>
+      )}
+
+      {tally.open && (
+        <div className="text-center">
+          <Button
+            onClick={() => closeVoting(session)}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 px-4 py-1 text-xs font-bold rounded-full"
+          >
+            CLOSE VOTING
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
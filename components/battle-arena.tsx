@@ -2,45 +2,96 @@
 
 import { useEffect, useState, useCallback, useRef } from "react"
 import { Card } from "@/components/ui/card"
-import { AIProvider, MODEL_CONFIGS, APIError } from "@/lib/types"
+import { AIProvider, APIError, CircuitBreakerStatus, ContestantSlot, PitchContent, PitchFinishReason, PitchResults, SlotId, UsageReport } from "@/lib/types"
+import { createSlot, getSlotDisplayName, requireProvider } from "@/lib/provider-registry"
+import { readPitchEvents } from "@/lib/pitch-stream"
+import { formatCost, formatTokens, sumUsage } from "@/lib/pricing"
 
 interface BattleArenaProps {
   concept: string
   userGroup: string
-  onPitchesComplete: (pitches: { groq: string; openai: string; anthropic: string }) => void
+  contestants: ContestantSlot[]
+  onPitchesComplete: (pitches: PitchContent, results: PitchResults) => void
   readonly?: boolean
 }
 
-interface PitchState {
-  groq: { content: string; isComplete: boolean; error?: APIError; isRetrying?: boolean }
-  openai: { content: string; isComplete: boolean; error?: APIError; isRetrying?: boolean }
-  anthropic: { content: string; isComplete: boolean; error?: APIError; isRetrying?: boolean }
+type PitchState = Record<SlotId, { content: string; isComplete: boolean; error?: APIError; isRetrying?: boolean; modelName?: string; fallbackFrom?: string; usage?: UsageReport; finishReason?: PitchFinishReason }>
+
+const mapContestants = <T,>(contestants: ContestantSlot[], build: (slotId: SlotId) => T): Record<SlotId, T> =>
+  Object.fromEntries(contestants.map(({ id }) => [id, build(id)]))
+
+// Static class names so Tailwind can see every layout we use
+const GRID_COLUMNS: Record<number, string> = {
+  1: "md:grid-cols-1",
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-2 xl:grid-cols-4",
+  5: "md:grid-cols-2 xl:grid-cols-3",
+  6: "md:grid-cols-2 xl:grid-cols-3",
 }
 
-export function BattleArena({ concept, userGroup, onPitchesComplete, readonly = false }: BattleArenaProps) {
-  const [pitches, setPitches] = useState<PitchState>({
-    groq: { content: "", isComplete: false },
-    openai: { content: "", isComplete: false },
-    anthropic: { content: "", isComplete: false },
-  })
+function CircuitBadge({ status }: { status?: CircuitBreakerStatus }) {
+  if (!status || (status.state === 'CLOSED' && status.failureCount === 0)) return null
+
+  const failures = `${status.failureCount} FAILURE${status.failureCount === 1 ? '' : 'S'}`
+  if (status.state === 'OPEN') {
+    const resetsAt = status.resetAt ? ` · RESETS ${new Date(status.resetAt).toLocaleTimeString()}` : ''
+    return (
+      <span className="inline-block mt-1 px-2 py-0.5 rounded text-xs font-bold bg-red-400/20 text-red-400">
+        CIRCUIT OPEN · {failures}{resetsAt}
+      </span>
+    )
+  }
+  if (status.state === 'HALF_OPEN') {
+    return (
+      <span className="inline-block mt-1 px-2 py-0.5 rounded text-xs font-bold bg-yellow-400/20 text-yellow-400">
+        CIRCUIT HALF-OPEN · TRIAL REQUEST
+      </span>
+    )
+  }
+  return (
+    <span className="inline-block mt-1 px-2 py-0.5 rounded text-xs bg-gray-400/20 text-gray-400">
+      {failures} RECENTLY
+    </span>
+  )
+}
+
+export function BattleArena({ concept, userGroup, contestants, onPitchesComplete, readonly = false }: BattleArenaProps) {
+  const [pitches, setPitches] = useState<PitchState>(() =>
+    mapContestants(contestants, () => ({ content: "", isComplete: false }))
+  )
   
-  const abortControllersRef = useRef<Map<AIProvider, AbortController>>(new Map())
+  const [breakers, setBreakers] = useState<Record<AIProvider, CircuitBreakerStatus>>({})
+
+  const abortControllersRef = useRef<Map<SlotId, AbortController>>(new Map())
   const completionCheckTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
+  // Server-side circuit breaker state, shown as a badge on each card
+  const refreshBreakers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/health')
+      const health = await response.json()
+      setBreakers(health.circuitBreakers?.providers ?? {})
+    } catch (error) {
+      console.warn('Failed to load circuit breaker state:', error)
+    }
+  }, [])
+
   // Stream content from API
-  const streamPitch = useCallback(async (provider: AIProvider, retryCount = 0) => {
+  const streamPitch = useCallback(async (slot: ContestantSlot, retryCount = 0) => {
     const maxRetries = 3
+    const maxResumes = 3
     const baseDelay = 1000
     
     try {
       // Create abort controller for this request
       const abortController = new AbortController()
-      abortControllersRef.current.set(provider, abortController)
+      abortControllersRef.current.set(slot.id, abortController)
       
-      // Reset state for this provider
+      // Reset state for this slot
       setPitches(prev => ({
         ...prev,
-        [provider]: {
+        [slot.id]: {
           content: "",
           isComplete: false,
           error: undefined,
@@ -48,69 +99,20 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
         }
       }))
 
-      const response = await fetch(`/api/pitch/${provider}`, {
+      let response = await fetch(`/api/pitch/${slot.provider}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           concept,
-          userGroup
+          userGroup,
+          modelConfig: slot.modelName ? { modelName: slot.modelName } : undefined,
+          fallbackModels: slot.fallbackModels
         }),
         signal: abortController.signal
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-      }
-
-      // Check if response is streaming
-      const contentType = response.headers.get('content-type')
-      if (contentType?.includes('application/json')) {
-        // Non-streaming response
-        const data = await response.json()
-        const content = data.pitch || data.content || 'No content received from API'
-        
-        // Simulate streaming for consistent UX
-        const words = content.split(" ")
-        let currentIndex = 0
-        
-        const streamInterval = setInterval(() => {
-          if (currentIndex < words.length) {
-            setPitches(prev => ({
-              ...prev,
-              [provider]: {
-                ...prev[provider],
-                content: words.slice(0, currentIndex + 1).join(" "),
-                isRetrying: false
-              }
-            }))
-            currentIndex++
-          } else {
-            clearInterval(streamInterval)
-            setPitches(prev => ({
-              ...prev,
-              [provider]: {
-                ...prev[provider],
-                isComplete: true,
-                error: undefined
-              }
-            }))
-            
-            debouncedCheckAllComplete()
-          }
-        }, provider === "groq" ? 50 : provider === "openai" ? 80 : 100)
-        
-        return
-      }
-
-      // Streaming response
-      if (!response.body) {
-        throw new Error('No response body received')
-      }
-
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
       let accumulatedContent = ""
       let updateQueue = ""
       let isUpdating = false
@@ -124,8 +126,8 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
             updateQueue = ""
             setPitches(prev => ({
               ...prev,
-              [provider]: {
-                ...prev[provider],
+              [slot.id]: {
+                ...prev[slot.id],
                 content: accumulatedContent,
                 isRetrying: false
               }
@@ -135,42 +137,91 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
         }
       }
 
-      while (true) {
-        const { done, value } = await reader.read()
-        
-        if (done) break
-        
-        const chunk = decoder.decode(value, { stream: true })
-        
-        // Handle Server-Sent Events format for Groq
-        if (provider === "groq" && chunk.includes('data: ')) {
-          const lines = chunk.split('\n')
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const jsonStr = line.slice(6).trim()
-                if (jsonStr && jsonStr !== '' && jsonStr !== '[DONE]') {
-                  const data = JSON.parse(jsonStr)
-                  if (data.type === 'text' && data.content) {
-                    updateQueue += data.content
-                  } else if (data.type === 'done') {
-                    break
-                  }
+      // The server keeps generating through a dropped connection, so resume
+      // the same generation from the last event received instead of paying
+      // for a new pitch
+      let generationId: string | undefined
+      let received = 0
+      let finished = false
+
+      for (let resumeCount = 0; ; resumeCount++) {
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => null)
+          throw Object.assign(
+            new Error(errorBody?.message || `HTTP ${response.status}: ${response.statusText}`),
+            { code: errorBody?.code }
+          )
+        }
+
+        if (!response.body) {
+          throw new Error('No response body received')
+        }
+
+        try {
+          for await (const event of readPitchEvents(response.body)) {
+            received++
+
+            if (event.type === 'start') {
+              const { params: { modelName }, fallbackFrom } = event
+              generationId = event.id
+              setPitches(prev => ({
+                ...prev,
+                [slot.id]: {
+                  ...prev[slot.id],
+                  modelName,
+                  fallbackFrom
                 }
-              } catch (parseError) {
-                // Skip invalid JSON lines
-                console.warn('Failed to parse SSE chunk:', line.slice(6))
+              }))
+            } else if (event.type === 'text-delta') {
+              updateQueue += event.chunk.content
+
+              // Micro-batch updates for smooth streaming (small frequent updates)
+              if (updateQueue.length >= 5) { // Update every 5 characters for smooth typing effect
+                scheduleUpdate()
               }
+            } else if (event.type === 'usage') {
+              const { usage } = event
+              setPitches(prev => ({
+                ...prev,
+                [slot.id]: {
+                  ...prev[slot.id],
+                  usage
+                }
+              }))
+            } else if (event.type === 'finish') {
+              const { finishReason } = event
+              finished = true
+              setPitches(prev => ({
+                ...prev,
+                [slot.id]: {
+                  ...prev[slot.id],
+                  finishReason
+                }
+              }))
+            } else if (event.type === 'error') {
+              // Surface mid-stream failures to the retry logic below
+              throw Object.assign(new Error(event.error.message), { code: event.error.code })
             }
           }
-        } else {
-          // For OpenAI and Anthropic - direct text stream
-          updateQueue += chunk
-        }
-        
-        // Micro-batch updates for smooth streaming (small frequent updates)
-        if (updateQueue.length >= 5) { // Update every 5 characters for smooth typing effect
-          scheduleUpdate()
+
+          if (!finished) {
+            throw new Error('Pitch stream ended before the pitch finished')
+          }
+          break
+        } catch (error: any) {
+          // Error events and cancellations are final; only a broken
+          // connection can be resumed
+          const isDrop = error.name !== 'AbortError' && !error.code
+          if (!isDrop || !generationId || resumeCount >= maxResumes) {
+            throw error
+          }
+
+          console.warn(`Pitch stream for ${slot.id} dropped, resuming at event ${received}:`, error.message)
+          await new Promise(resolve => setTimeout(resolve, baseDelay))
+          response = await fetch(
+            `/api/pitch/${slot.provider}?generationId=${encodeURIComponent(generationId)}&offset=${received}`,
+            { signal: abortController.signal }
+          )
         }
       }
 
@@ -179,8 +230,8 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
         accumulatedContent += updateQueue
         setPitches(prev => ({
           ...prev,
-          [provider]: {
-            ...prev[provider],
+          [slot.id]: {
+            ...prev[slot.id],
             content: accumulatedContent,
             isRetrying: false
           }
@@ -190,8 +241,8 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
       // Mark as complete
       setPitches(prev => ({
         ...prev,
-        [provider]: {
-          ...prev[provider],
+        [slot.id]: {
+          ...prev[slot.id],
           isComplete: true,
           error: undefined
         }
@@ -201,7 +252,7 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
       debouncedCheckAllComplete()
 
     } catch (error: any) {
-      console.error(`Error generating pitch for ${provider}:`, error)
+      console.error(`Error generating pitch for ${slot.id}:`, error)
       
       // Don't retry if aborted
       if (error.name === 'AbortError') {
@@ -210,32 +261,35 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
       
       const apiError: APIError = {
         code: error.code || 'STREAM_ERROR',
-        message: error.message || `Failed to generate pitch for ${provider}`,
-        provider,
+        message: error.message || `Failed to generate pitch for ${slot.id}`,
+        provider: slot.provider,
         timestamp: new Date().toISOString(),
-        retryable: retryCount < maxRetries
+        // An open breaker will keep failing fast until it resets
+        retryable: retryCount < maxRetries && error.code !== 'CIRCUIT_BREAKER_OPEN'
       }
 
       setPitches(prev => ({
         ...prev,
-        [provider]: {
-          ...prev[provider],
+        [slot.id]: {
+          ...prev[slot.id],
           error: apiError,
           isRetrying: false
         }
       }))
 
+      refreshBreakers()
+
       // Retry logic
-      if (retryCount < maxRetries) {
+      if (apiError.retryable) {
         const delay = baseDelay * Math.pow(2, retryCount)
         setTimeout(() => {
-          streamPitch(provider, retryCount + 1)
+          streamPitch(slot, retryCount + 1)
         }, delay)
       } else {
         // Mark as failed after max retries
         setPitches(prev => ({
           ...prev,
-          [provider]: {
+          [slot.id]: {
             content: '',
             isComplete: true,
             error: apiError
@@ -245,34 +299,37 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
         debouncedCheckAllComplete()
       }
     }
-  }, [concept, userGroup])
+  }, [concept, userGroup, refreshBreakers])
 
   // Check if all pitches are complete using current state
   const checkAllComplete = useCallback(() => {
     if (readonly) return
     
     setPitches(currentPitches => {
-      const allComplete = currentPitches.groq.isComplete && 
-                         currentPitches.openai.isComplete && 
-                         currentPitches.anthropic.isComplete
+      const states = Object.values(currentPitches)
+      const allComplete = states.every(pitch => pitch.isComplete)
       
-      // Simplified content validation - just check for reasonable content length
-      const hasValidContent = (content: string) => {
-        return content.trim().length > 50 // At least 50 characters of actual content
+      // Simplified content validation - just check for reasonable content length.
+      // A pitch cut off by the server deadline counts with whatever it produced.
+      const hasValidContent = (pitch: PitchState[SlotId]) => {
+        const length = pitch.content.trim().length
+        return length > 50 || (pitch.finishReason === 'timeout' && length > 0) // At least 50 characters of actual content
       }
       
-      const allHaveContent = hasValidContent(currentPitches.groq.content) && 
-                            hasValidContent(currentPitches.openai.content) && 
-                            hasValidContent(currentPitches.anthropic.content)
+      const allHaveContent = states.every(hasValidContent)
       
       if (allComplete && allHaveContent) {
-        const finalPitches = {
-          groq: currentPitches.groq.content,
-          openai: currentPitches.openai.content,
-          anthropic: currentPitches.anthropic.content,
-        }
+        const finalPitches: PitchContent = Object.fromEntries(
+          Object.entries(currentPitches).map(([slotId, pitch]) => [slotId, pitch.content])
+        )
+        const finalResults: PitchResults = Object.fromEntries(
+          Object.entries(currentPitches).map(([slotId, { modelName, fallbackFrom, usage, finishReason }]) => [
+            slotId,
+            { modelName, fallbackFrom, usage, finishReason }
+          ])
+        )
         // Use setTimeout to avoid calling during render
-        setTimeout(() => onPitchesComplete(finalPitches), 0)
+        setTimeout(() => onPitchesComplete(finalPitches, finalResults), 0)
       }
       
       // Return unchanged state
@@ -291,8 +348,8 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
   }, [checkAllComplete])
 
   // Manual retry function
-  const retryPitch = useCallback((provider: AIProvider) => {
-    streamPitch(provider, 0)
+  const retryPitch = useCallback((slot: ContestantSlot) => {
+    streamPitch(slot, 0)
   }, [streamPitch])
 
   useEffect(() => {
@@ -314,32 +371,24 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
     if (readonly) {
       // In readonly mode, don't overwrite existing content if we have it
       setPitches(prev => {
-        const hasContent = prev.groq.content || prev.openai.content || prev.anthropic.content
+        const hasContent = Object.values(prev).some(pitch => pitch.content)
         if (hasContent) {
           // If we already have content, just mark everything as complete
-          return {
-            groq: { ...prev.groq, isComplete: true },
-            openai: { ...prev.openai, isComplete: true },
-            anthropic: { ...prev.anthropic, isComplete: true },
-          }
+          return mapContestants(contestants, slotId => ({ ...prev[slotId], isComplete: true }))
         } else {
           // If no content exists, show loading state
-          return {
-            groq: { content: "Loading previous content...", isComplete: false },
-            openai: { content: "Loading previous content...", isComplete: false },
-            anthropic: { content: "Loading previous content...", isComplete: false },
-          }
+          return mapContestants(contestants, () => ({ content: "Loading previous content...", isComplete: false }))
         }
       })
       return
     }
 
-    // Start streaming for all providers with staggered delays
-    const models: AIProvider[] = ["groq", "openai", "anthropic"]
-    
-    models.forEach((provider, index) => {
+    refreshBreakers()
+
+    // Start streaming for all contestants with staggered delays
+    contestants.forEach((slot, index) => {
       setTimeout(() => {
-        streamPitch(provider)
+        streamPitch(slot)
       }, index * 500) // Stagger the start times
     })
 
@@ -355,13 +404,15 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
         clearTimeout(completionCheckTimeoutRef.current)
       }
     }
-  }, [readonly, concept, userGroup, streamPitch])
+  }, [readonly, concept, userGroup, contestants, streamPitch, refreshBreakers])
+
+  const reportedUsage = Object.values(pitches).map(pitch => pitch.usage)
+  const battleUsage = reportedUsage.some(Boolean) ? sumUsage(reportedUsage) : null
 
-  const aiModels = [
-    { key: "groq" as AIProvider, name: MODEL_CONFIGS.groq.displayName, color: MODEL_CONFIGS.groq.color, icon: MODEL_CONFIGS.groq.icon },
-    { key: "openai" as AIProvider, name: MODEL_CONFIGS.openai.displayName, color: MODEL_CONFIGS.openai.color, icon: MODEL_CONFIGS.openai.icon },
-    { key: "anthropic" as AIProvider, name: MODEL_CONFIGS.anthropic.displayName, color: MODEL_CONFIGS.anthropic.color, icon: MODEL_CONFIGS.anthropic.icon },
-  ] as const
+  const aiModels = contestants.map(slot => {
+    const { color, icon } = requireProvider(slot.provider)
+    return { key: slot.id, slot, name: getSlotDisplayName(slot), color, icon }
+  })
 
   return (
     <div className="space-y-4">
@@ -372,8 +423,8 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 h-full">
-        {aiModels.map(({ key, name, color, icon }) => (
+      <div className={`grid grid-cols-1 ${GRID_COLUMNS[contestants.length] ?? "md:grid-cols-3"} gap-6 h-full`}>
+        {aiModels.map(({ key, slot, name, color, icon }) => (
           <Card key={key} className={`bg-black/40 backdrop-blur-sm border-${color}-400/50 p-6 overflow-hidden flex flex-col`} style={{ minHeight: '500px' }}>
             {/* Header */}
             <div className={`flex items-center gap-3 mb-4 pb-3 border-b border-${color}-400/30`}>
@@ -385,14 +436,27 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
                     ? "ERROR - CLICK TO RETRY"
                     : pitches[key].isRetrying
                     ? "RETRYING..."
+                    : pitches[key].isComplete && pitches[key].finishReason === 'timeout'
+                    ? "TIME'S UP - PARTIAL PITCH"
                     : pitches[key].isComplete
                     ? "PITCH COMPLETE"
                     : "GENERATING..."}
                 </div>
+                <CircuitBadge status={breakers[slot.provider]} />
+                {pitches[key].fallbackFrom && pitches[key].modelName && (
+                  <div className="text-xs text-yellow-400">
+                    FALLBACK: {getSlotDisplayName(createSlot(slot.provider, pitches[key].modelName))}
+                  </div>
+                )}
+                {pitches[key].usage && (
+                  <div className="text-xs text-gray-500">
+                    {formatTokens(pitches[key].usage!)} · {formatCost(pitches[key].usage!.costUSD)}
+                  </div>
+                )}
               </div>
               {pitches[key].error && !pitches[key].isRetrying && (
                 <button
-                  onClick={() => retryPitch(key)}
+                  onClick={() => retryPitch(slot)}
                   className={`text-${color}-400 hover:text-${color}-300 text-sm font-medium transition-colors`}
                 >
                   RETRY
@@ -418,7 +482,7 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
                     {pitches[key].error?.message}
                   </div>
                   <button
-                    onClick={() => retryPitch(key)}
+                    onClick={() => retryPitch(slot)}
                     className={`text-${color}-400 hover:text-${color}-300 text-sm font-medium transition-colors`}
                   >
                     Click to retry
@@ -470,6 +534,12 @@ export function BattleArena({ concept, userGroup, onPitchesComplete, readonly =
           </Card>
         ))}
       </div>
+
+      {battleUsage && (
+        <div className="text-center text-xs text-gray-400">
+          BATTLE TOTAL: {formatTokens(battleUsage)} · {formatCost(battleUsage.costUSD)}
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+"use client"
+
+import { ContestantSlot, CONTESTANT_LIMITS, SlotId } from "@/lib/types"
+import { getSlotDisplayName, listProviders, listSlotOptions } from "@/lib/provider-registry"
+
+interface ContestantPickerProps {
+  contestants: ContestantSlot[]
+  onChange: (contestants: ContestantSlot[]) => void
+}
+
+// Each provider offers its configured model plus its other allowed models, so
+// one provider can fill several slots (e.g. Sonnet vs Haiku)
+export function ContestantPicker({ contestants, onChange }: ContestantPickerProps) {
+  const allSlots = listProviders().flatMap(({ provider }) => listSlotOptions(provider))
+  const selectedIds = new Set<SlotId>(contestants.map(slot => slot.id))
+
+  const toggle = (slot: ContestantSlot) => {
+    if (selectedIds.has(slot.id)) {
+      if (contestants.length <= CONTESTANT_LIMITS.min) return
+      onChange(contestants.filter(({ id }) => id !== slot.id))
+    } else {
+      if (contestants.length >= CONTESTANT_LIMITS.max) return
+      // Keep registry order so the arena layout is stable
+      onChange(allSlots.filter(({ id }) => id === slot.id || selectedIds.has(id)))
+    }
+  }
+
+  return (
+    <div className="text-center space-y-3">
+      <div className="text-sm text-gray-400">
+        CONTESTANTS ({contestants.length}/{CONTESTANT_LIMITS.max})
+      </div>
+      <div className="flex flex-col items-center gap-2">
+        {listProviders().map(({ provider, icon, color }) => (
+          <div key={provider} className="flex flex-wrap items-center justify-center gap-2">
+            {listSlotOptions(provider).map(slot => {
+              const selected = selectedIds.has(slot.id)
+              return (
+                <button
+                  key={slot.id}
+                  onClick={() => toggle(slot)}
+                  className={`px-4 py-2 rounded-full border text-sm font-bold transition-colors ${
+                    selected
+                      ? `border-${color}-400 text-${color}-400 bg-${color}-400/10`
+                      : "border-gray-600 text-gray-500 hover:text-gray-300"
+                  }`}
+                >
+                  {icon} {getSlotDisplayName(slot)}
+                </button>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
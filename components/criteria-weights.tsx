@@ -0,0 +1,69 @@
+"use client"
+
+import { useState } from "react"
+import { Slider } from "@/components/ui/slider"
+import { DEFAULT_JUDGING_CRITERIA, JudgingCriteria, JudgingCriterion, JUDGING_CRITERION_LABELS } from "@/lib/types"
+import { validateJudgingCriteria } from "@/lib/prompt-templates"
+
+interface CriteriaWeightsProps {
+  criteria: JudgingCriteria
+  onChange: (criteria: JudgingCriteria) => void
+}
+
+const CRITERIA = Object.keys(JUDGING_CRITERION_LABELS) as JudgingCriterion[]
+
+const toPercentages = (criteria: JudgingCriteria) =>
+  Object.fromEntries(CRITERIA.map(criterion => [criterion, Math.round(criteria[criterion] * 100)])) as Record<JudgingCriterion, number>
+
+const toWeights = (percentages: JudgingCriteria) =>
+  Object.fromEntries(CRITERIA.map(criterion => [criterion, percentages[criterion] / 100])) as Record<JudgingCriterion, number>
+
+// Weights are edited as percentages. Only totals of exactly 100% are passed
+// up, so the judge always gets the last valid set.
+export function CriteriaWeights({ criteria, onChange }: CriteriaWeightsProps) {
+  const [draft, setDraft] = useState<JudgingCriteria>(() => toPercentages(criteria))
+  const total = CRITERIA.reduce((sum, criterion) => sum + draft[criterion], 0)
+  const isValid = validateJudgingCriteria(toWeights(draft)).isValid
+
+  const update = (next: JudgingCriteria) => {
+    setDraft(next)
+    const weights = toWeights(next)
+    if (validateJudgingCriteria(weights).isValid) {
+      onChange(weights)
+    }
+  }
+
+  return (
+    <div className="text-center space-y-3 w-full max-w-md">
+      <div className="text-sm text-gray-400">
+        JUDGING WEIGHTS{" "}
+        <span className={isValid ? "text-gray-500" : "text-red-400"}>({total}%)</span>
+      </div>
+      <div className="space-y-2">
+        {CRITERIA.map(criterion => (
+          <div key={criterion} className="flex items-center gap-3 text-xs">
+            <span className="w-40 text-left text-gray-300">{JUDGING_CRITERION_LABELS[criterion]}</span>
+            <Slider
+              value={[draft[criterion]]}
+              min={0}
+              max={100}
+              step={5}
+              onValueChange={([value]) => update({ ...draft, [criterion]: value })}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-gray-400">{draft[criterion]}%</span>
+          </div>
+        ))}
+      </div>
+      {!isValid && (
+        <div className="text-xs text-red-400">Weights must add up to 100%; the judge uses the last valid set</div>
+      )}
+      <button
+        onClick={() => update(toPercentages(DEFAULT_JUDGING_CRITERIA))}
+        className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        RESET TO DEFAULTS
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { JudgeAggregation, JudgePanelConfig, JudgingMode, TieBreakRule, JUDGE_MODELS, JUDGE_PANEL_LIMITS } from "@/lib/types"
+
+interface JudgePanelPickerProps {
+  panel: JudgePanelConfig
+  onChange: (panel: JudgePanelConfig) => void
+  blind: boolean
+  onBlindChange: (blind: boolean) => void
+  mode: JudgingMode
+  onModeChange: (mode: JudgingMode) => void
+  tieBreak: TieBreakRule
+  onTieBreakChange: (tieBreak: TieBreakRule) => void
+  audience: boolean
+  onAudienceChange: (audience: boolean) => void
+}
+
+const AGGREGATIONS: Array<{ value: JudgeAggregation; label: string }> = [
+  { value: "mean", label: "MEAN" },
+  { value: "median", label: "MEDIAN" },
+  { value: "majority", label: "MAJORITY VOTE" },
+]
+
+const MODES: Array<{ value: JudgingMode; label: string; title: string }> = [
+  { value: "scorecard", label: "SCORECARD", title: "Each judge scores every pitch on the criteria in one go" },
+  { value: "pairwise", label: "HEAD-TO-HEAD", title: "Each judge compares every pair of pitches; the pitches are ranked from the outcomes" },
+]
+
+const TIE_BREAKS: Array<{ value: TieBreakRule; label: string; title: string; modes: JudgingMode[] }> = [
+  { value: "declared", label: "JUDGE'S PICK", title: "The tied pitch the judges named as winner", modes: ["scorecard", "pairwise"] },
+  { value: "breakdown", label: "TOP CRITERION", title: "The tied pitch ahead on the most heavily weighted criterion", modes: ["scorecard"] },
+  { value: "runoff", label: "RUN-OFF", title: "The first judge chooses between the tied pitches", modes: ["scorecard", "pairwise"] },
+]
+
+export function JudgePanelPicker({
+  panel,
+  onChange,
+  blind,
+  onBlindChange,
+  mode,
+  onModeChange,
+  tieBreak,
+  onTieBreakChange,
+  audience,
+  onAudienceChange,
+}: JudgePanelPickerProps) {
+  const selected = new Set(panel.judges)
+
+  const toggle = (modelName: string) => {
+    if (selected.has(modelName)) {
+      if (panel.judges.length <= JUDGE_PANEL_LIMITS.min) return
+      onChange({ ...panel, judges: panel.judges.filter(judge => judge !== modelName) })
+    } else {
+      if (panel.judges.length >= JUDGE_PANEL_LIMITS.max) return
+      // Keep JUDGE_MODELS order so the verdict lists judges consistently
+      onChange({
+        ...panel,
+        judges: JUDGE_MODELS.map(judge => judge.modelName).filter(judge => judge === modelName || selected.has(judge)),
+      })
+    }
+  }
+
+  return (
+    <div className="text-center space-y-3">
+      <div className="text-sm text-gray-400">
+        JUDGES ({panel.judges.length}/{JUDGE_PANEL_LIMITS.max})
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {JUDGE_MODELS.map(({ modelName, displayName, icon, color }) => (
+          <button
+            key={modelName}
+            onClick={() => toggle(modelName)}
+            className={`px-4 py-2 rounded-full border text-sm font-bold transition-colors ${
+              selected.has(modelName)
+                ? `border-${color}-400 text-${color}-400 bg-${color}-400/10`
+                : "border-gray-600 text-gray-500 hover:text-gray-300"
+            }`}
+          >
+            {icon} {displayName}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-center gap-2 text-xs">
+        {MODES.map(({ value, label, title }) => (
+          <button
+            key={value}
+            onClick={() => {
+              onModeChange(value)
+              // Head-to-head verdicts have no criterion breakdown to fall back on
+              if (!TIE_BREAKS.find(rule => rule.value === tieBreak)?.modes.includes(value)) onTieBreakChange("declared")
+            }}
+            title={title}
+            className={`px-3 py-1 rounded-full border transition-colors ${
+              mode === value
+                ? "border-yellow-400 text-yellow-400"
+                : "border-gray-600 text-gray-500 hover:text-gray-300"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {/* Head-to-head outcomes are pooled over the panel instead */}
+      {panel.judges.length > 1 && mode === "scorecard" && (
+        <div className="flex items-center justify-center gap-2 text-xs">
+          {AGGREGATIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onChange({ ...panel, aggregation: value })}
+              className={`px-3 py-1 rounded-full border transition-colors ${
+                panel.aggregation === value
+                  ? "border-yellow-400 text-yellow-400"
+                  : "border-gray-600 text-gray-500 hover:text-gray-300"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-center gap-2 text-xs">
+        <span className="text-gray-500">TIES:</span>
+        {TIE_BREAKS.filter(rule => rule.modes.includes(mode)).map(({ value, label, title }) => (
+          <button
+            key={value}
+            onClick={() => onTieBreakChange(value)}
+            title={title}
+            className={`px-3 py-1 rounded-full border transition-colors ${
+              tieBreak === value
+                ? "border-yellow-400 text-yellow-400"
+                : "border-gray-600 text-gray-500 hover:text-gray-300"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-center gap-2">
+        <button
+          onClick={() => onBlindChange(!blind)}
+          title="Judges see anonymized pitches in a shuffled order"
+          className={`px-3 py-1 rounded-full border text-xs transition-colors ${
+            blind ? "border-yellow-400 text-yellow-400" : "border-gray-600 text-gray-500 hover:text-gray-300"
+          }`}
+        >
+          BLIND JUDGING {blind ? "ON" : "OFF"}
+        </button>
+        <button
+          onClick={() => onAudienceChange(!audience)}
+          title="The room votes from their phones while the judges deliberate"
+          className={`px-3 py-1 rounded-full border text-xs transition-colors ${
+            audience ? "border-yellow-400 text-yellow-400" : "border-gray-600 text-gray-500 hover:text-gray-300"
+          }`}
+        >
+          AUDIENCE VOTE {audience ? "ON" : "OFF"}
+        </button>
+      </div>
+    </div>
+  )
+}
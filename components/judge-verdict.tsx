@@ -3,125 +3,217 @@
 import { useEffect, useState, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
+import {
+  BlindJudging,
+  CriterionScores,
+  JudgePanelConfig,
+  JudgePanelResult,
+  JudgeResponse,
+  JudgeScore,
+  JudgeTie,
+  JudgingCriteria,
+  JudgingCriterion,
+  JudgingMode,
+  JUDGING_CRITERION_LABELS,
+  PairwiseResult,
+  PitchContent,
+  PitchResults,
+  SlotId,
+  TieBreakRule,
+  UsageReport,
+  DEFAULT_JUDGE_PANEL
+} from "@/lib/types"
+import { createSlot, getProvider, getSlotDisplayName, parseSlotId } from "@/lib/provider-registry"
+import { formatCost, formatTokens, sumUsage } from "@/lib/pricing"
+import { getJudgeModel } from "@/lib/judge-panel"
+import { JUDGE_STREAM_CONTENT_TYPE, readJudgeEvents } from "@/lib/pitch-stream"
+import { AudienceVote } from "@/components/audience-vote"
 
 interface JudgeVerdictProps {
-  pitches: {
-    groq: string
-    openai: string
-    anthropic: string
-  }
+  pitches: PitchContent
+  pitchResults?: PitchResults
+  criteria?: JudgingCriteria // weights for the overall score; the judge's defaults if unset
+  panel?: JudgePanelConfig
+  blind?: boolean // judge anonymized pitches in a shuffled order
+  mode?: JudgingMode
+  tieBreak?: TieBreakRule // how a tie for first place is settled
+  audience?: boolean // run an audience vote alongside the judges
   concept: string
   userGroup: string
   onReset: () => void
 }
 
-export function JudgeVerdict({ pitches, concept, userGroup, onReset }: JudgeVerdictProps) {
-  const [scores, setScores] = useState<{ groq: number; openai: number; anthropic: number } | null>(null)
-  const [winner, setWinner] = useState<string | null>(null)
+const TIE_BREAK_LABELS: Record<TieBreakRule, string> = {
+  declared: "the judges' pick",
+  breakdown: "the most heavily weighted criterion",
+  runoff: "a run-off",
+}
+
+export function JudgeVerdict({
+  pitches,
+  pitchResults = {},
+  criteria,
+  panel = DEFAULT_JUDGE_PANEL,
+  blind = false,
+  mode = "scorecard",
+  tieBreak = "declared",
+  audience = false,
+  concept,
+  userGroup,
+  onReset,
+}: JudgeVerdictProps) {
+  const [scores, setScores] = useState<Record<SlotId, number> | null>(null)
+  const [breakdowns, setBreakdowns] = useState<Record<SlotId, CriterionScores>>({})
+  const [winners, setWinners] = useState<SlotId[]>([]) // more than one when a tie stands
+  const [tieResult, setTieResult] = useState<JudgeTie | null>(null)
   const [reasoning, setReasoning] = useState<string | null>(null)
   const [showVerdict, setShowVerdict] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const hasInitialized = useRef(false)
+  const [judgeUsage, setJudgeUsage] = useState<UsageReport | null>(null)
+  const [appliedCriteria, setAppliedCriteria] = useState<JudgingCriteria | null>(null)
+  const [panelResult, setPanelResult] = useState<JudgePanelResult | null>(null)
+  const [blindResult, setBlindResult] = useState<BlindJudging | null>(null)
+  const [liveReasoning, setLiveReasoning] = useState<Record<string, string>>({})
+  const [pairwiseResult, setPairwiseResult] = useState<PairwiseResult | null>(null)
+  const [attempt, setAttempt] = useState(0)
+  const startedAttempt = useRef<number | null>(null)
 
   useEffect(() => {
-    if (hasInitialized.current) return
-    hasInitialized.current = true
+    if (startedAttempt.current === attempt) return
+    startedAttempt.current = attempt
+    const abortController = new AbortController()
 
     // Actually call the judge API
     const callJudgeAPI = async () => {
       // Debug: Judge received pitches
       console.log('🏛️ Judge received pitches:', {
-        groq: pitches.groq.length,
-        openai: pitches.openai.length,
-        anthropic: pitches.anthropic.length,
+        ...Object.fromEntries(Object.entries(pitches).map(([slotId, pitch]) => [slotId, pitch.length])),
         concept,
         userGroup
       })
-      
+
       try {
         const response = await fetch('/api/judge', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            'Accept': JUDGE_STREAM_CONTENT_TYPE,
           },
           body: JSON.stringify({
             concept,
             userGroup,
-            pitches
-          })
+            pitches,
+            truncated: Object.keys(pitches).filter(slotId => pitchResults[slotId]?.finishReason === 'timeout'),
+            criteria,
+            panel,
+            blind,
+            mode,
+            tieBreak
+          }),
+          signal: abortController.signal
         })
 
-        if (!response.ok) {
-          throw new Error(`Judge API error: ${response.status}`)
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => null)
+          throw new Error(data?.message ?? `Judge API error: ${response.status}`)
         }
 
-        const judgeResult = await response.json()
-        
-        // Extract scores from judge response
-        const newScores = {
-          groq: judgeResult.scores.groq.score,
-          openai: judgeResult.scores.openai.score,
-          anthropic: judgeResult.scores.anthropic.score,
+        // Show each judge's reasoning as it is written, until the verdict
+        let judgeResult: JudgeResponse | null = null
+        for await (const event of readJudgeEvents(response.body)) {
+          if (event.type === 'start') {
+            setBlindResult(event.blind ?? null)
+          } else if (event.type === 'reasoning-delta') {
+            setLiveReasoning(current => ({ ...current, [event.judge]: (current[event.judge] ?? '') + event.text }))
+          } else if (event.type === 'retry') {
+            setLiveReasoning(current => ({ ...current, [event.judge]: '' }))
+          } else if (event.type === 'verdict') {
+            judgeResult = event.verdict
+          } else {
+            throw new Error(event.error.message)
+          }
+        }
+        if (!judgeResult) {
+          throw new Error('The judge stream ended without a verdict')
         }
 
+        // Extract scores from judge response
+        const judgeScores: JudgeScore[] = Object.values(judgeResult.scores)
+        const newScores: Record<SlotId, number> = Object.fromEntries(
+          judgeScores.map(({ slot, score }) => [slot, score])
+        )
+
         setScores(newScores)
-        setReasoning(judgeResult.scores.groq.reasoning) // Use the reasoning from judge
-        
-        // Determine winner from judge response
-        const maxScore = Math.max(newScores.groq, newScores.openai, newScores.anthropic)
-        const winnerKey = Object.entries(newScores).find(([_, score]) => score === maxScore)?.[0]
-        setWinner(winnerKey || "groq")
-
-        setTimeout(() => setShowVerdict(true), 1000)
+        setBreakdowns(Object.fromEntries(
+          judgeScores.flatMap(({ slot, breakdown }) => (breakdown ? [[slot, breakdown]] : []))
+        ))
+        setReasoning(judgeResult.overallReasoning)
+        setJudgeUsage(judgeResult.metadata?.usage ?? null)
+        setAppliedCriteria(judgeResult.criteria ?? null)
+        setPanelResult(judgeResult.panel ?? null)
+        setBlindResult(judgeResult.blind ?? null)
+        setPairwiseResult(judgeResult.pairwise ?? null)
+        setTieResult(judgeResult.tie ?? null)
+
+        // The judge route already settled the winner, or left a tie standing
+        setWinners(judgeResult.tie?.winners ?? [judgeResult.winner])
+
+        setShowVerdict(true)
       } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return
+
         console.error('Judge API call failed:', err)
+        // No verdict means no scores: the battle is left undecided
         setError(err instanceof Error ? err.message : 'Unknown error')
-        
-        // Fallback to random scores if API fails
-        const fallbackScores = {
-          groq: Math.floor(Math.random() * 3) + 8,
-          openai: Math.floor(Math.random() * 3) + 7,
-          anthropic: Math.floor(Math.random() * 3) + 7,
-        }
-        setScores(fallbackScores)
-        setReasoning("Judge API unavailable - using fallback scoring")
-        
-        const maxScore = Math.max(fallbackScores.groq, fallbackScores.openai, fallbackScores.anthropic)
-        const winnerKey = Object.entries(fallbackScores).find(([_, score]) => score === maxScore)?.[0]
-        setWinner(winnerKey || "groq")
-        
-        setTimeout(() => setShowVerdict(true), 1000)
+        setShowVerdict(true)
       }
     }
 
-    // Add delay to simulate deliberation
-    setTimeout(callJudgeAPI, 2000)
-  }, [pitches, concept, userGroup])
-
-  const getModelName = (key: string) => {
-    switch (key) {
-      case "groq":
-        return "LLAMA 3.3"
-      case "openai":
-        return "GPT-4o"
-      case "anthropic":
-        return "SONNET 4"
-      default:
-        return key
+    callJudgeAPI()
+
+    // Stop the judge call (and its upstream generation) on BATTLE AGAIN. A
+    // remount (StrictMode runs effects twice in dev) sends the request again.
+    return () => {
+      abortController.abort()
+      startedAttempt.current = null
     }
+  }, [attempt, pitches, pitchResults, criteria, panel, blind, mode, tieBreak, concept, userGroup])
+
+  const retryJudging = () => {
+    setError(null)
+    setLiveReasoning({})
+    setShowVerdict(false)
+    setAttempt(current => current + 1)
   }
 
-  const getModelColor = (key: string) => {
-    switch (key) {
-      case "groq":
-        return "cyan"
-      case "openai":
-        return "emerald"
-      case "anthropic":
-        return "orange"
-      default:
-        return "gray"
-    }
+  const pitchTotal = sumUsage(Object.values(pitchResults).map(result => result.usage))
+  const battleTotal = sumUsage([pitchTotal, judgeUsage ?? undefined])
+
+  const getModelName = (key: SlotId) => {
+    const slot = parseSlotId(key)
+    return slot ? getSlotDisplayName(slot) : key
+  }
+
+  // Name of the fallback model that stood in for the slot, if any
+  const getFallbackName = (key: SlotId) => {
+    const slot = parseSlotId(key)
+    const { modelName, fallbackFrom } = pitchResults[key] ?? {}
+    return slot && fallbackFrom && modelName ? getSlotDisplayName(createSlot(slot.provider, modelName)) : null
+  }
+
+  const getJudgeName = (modelName: string) => getJudgeModel(modelName)?.displayName ?? modelName
+
+  // The pitches a judge's own scores put first
+  const getTopScored = (judgeScores: Record<SlotId, JudgeScore>) => {
+    const top = Math.max(...Object.values(judgeScores).map(({ score }) => score))
+    return Object.values(judgeScores).filter(({ score }) => score === top).map(({ slot }) => slot)
+  }
+
+  const mismatches = panelResult?.verdicts.filter(verdict => verdict.winnerMismatch) ?? []
+
+  const getModelColor = (key: SlotId) => {
+    const slot = parseSlotId(key)
+    return (slot && getProvider(slot.provider)?.color) ?? "gray"
   }
 
   return (
@@ -129,47 +221,162 @@ export function JudgeVerdict({ pitches, concept, userGroup, onReset }: JudgeVerd
       {/* Header */}
       <div className="text-center mb-6">
         <div className="text-4xl mb-2">⚖️</div>
-        <h3 className="text-2xl font-bold text-yellow-400">OPUS 4.1 PRESIDING</h3>
-        <p className="text-gray-300">Final Judgment</p>
+        <h3 className="text-2xl font-bold text-yellow-400">
+          {panel.judges.length === 1 ? getJudgeName(panel.judges[0]) : panel.judges.map(getJudgeName).join(" · ")} PRESIDING
+        </h3>
+        <p className="text-gray-300">
+          {mode === "pairwise"
+            ? `Head-to-Head Judgment${panel.judges.length > 1 ? " (POOLED)" : ""}`
+            : panel.judges.length === 1 ? "Final Judgment" : `Panel Judgment (${panel.aggregation.toUpperCase()})`}
+        </p>
       </div>
 
       {/* Scoring */}
       {scores && (
         <div className="space-y-4 mb-6">
           {Object.entries(scores).map(([key, score]) => (
-            <div key={key} className="flex items-center gap-4">
-              <div className={`w-32 text-${getModelColor(key)}-400 font-bold`}>{getModelName(key)}</div>
-              <div className="flex-1 bg-gray-700 rounded-full h-6 overflow-hidden">
-                <div
-                  className={`h-full bg-${getModelColor(key)}-400 transition-all duration-1000 flex items-center justify-end pr-2 ${
-                    winner === key ? "animate-pulse shadow-lg" : ""
-                  }`}
-                  style={{ width: `${(score / 10) * 100}%` }}
-                >
-                  <span className="text-black font-bold text-sm">{score}/10</span>
+            <div key={key} className="space-y-1">
+              <div className="flex items-center gap-4">
+                <div className={`w-32 text-${getModelColor(key)}-400 font-bold`}>
+                  {getModelName(key)}
+                  {getFallbackName(key) && (
+                    <div className="text-xs text-yellow-400 font-normal">via {getFallbackName(key)}</div>
+                  )}
                 </div>
+                <div className="flex-1 bg-gray-700 rounded-full h-6 overflow-hidden">
+                  <div
+                    className={`h-full bg-${getModelColor(key)}-400 transition-all duration-1000 flex items-center justify-end pr-2 ${
+                      winners.includes(key) ? "animate-pulse shadow-lg" : ""
+                    }`}
+                    style={{ width: `${(score / 10) * 100}%` }}
+                  >
+                    <span className="text-black font-bold text-sm">{score}/10</span>
+                  </div>
+                </div>
+                {winners.includes(key) && (
+                  <div className="text-yellow-400 font-bold animate-bounce">
+                    {winners.length > 1 ? "🤝 CO-WINNER!" : "🏆 WINNER!"}
+                  </div>
+                )}
               </div>
-              {winner === key && <div className="text-yellow-400 font-bold animate-bounce">🏆 WINNER!</div>}
+              {pairwiseResult?.standings[key] && (
+                <div className="ml-36 text-xs text-gray-400">
+                  {pairwiseResult.standings[key].wins}-{pairwiseResult.standings[key].losses} head-to-head ·{" "}
+                  {pairwiseResult.ranking === "copeland"
+                    ? `${pairwiseResult.standings[key].copeland} matchups won`
+                    : `strength ${Math.round(pairwiseResult.standings[key].strength * 100)}%`}
+                </div>
+              )}
+              {breakdowns[key] && (
+                <div className="ml-36 text-xs text-gray-400">
+                  {(Object.keys(JUDGING_CRITERION_LABELS) as JudgingCriterion[])
+                    .map(criterion => `${JUDGING_CRITERION_LABELS[criterion]} ${breakdowns[key][criterion]}`)
+                    .join(" · ")}
+                </div>
+              )}
             </div>
           ))}
         </div>
       )}
 
+      {/* Audience vote */}
+      {audience && (
+        <AudienceVote
+          concept={concept}
+          userGroup={userGroup}
+          slots={Object.keys(pitches)}
+          judgeWinners={showVerdict ? winners : []}
+        />
+      )}
+
       {/* Verdict */}
-      {showVerdict && winner && (
+      {showVerdict && winners.length > 0 && (
         <div className="text-center space-y-4">
           <div className="text-xl text-gray-200">
-            <span className="font-bold text-yellow-400">{getModelName(winner)}</span> wins with the most compelling
-            pitch!
+            {winners.length > 1 ? (
+              <>
+                <span className="font-bold text-yellow-400">{winners.map(getModelName).join(" and ")}</span> share the
+                win!
+              </>
+            ) : (
+              <>
+                <span className="font-bold text-yellow-400">{getModelName(winners[0])}</span> wins with the most
+                compelling pitch!
+              </>
+            )}
           </div>
+          {tieResult && scores && (
+            <div className="text-xs text-yellow-400">
+              {tieResult.winners.length > 1
+                ? `Level on ${scores[tieResult.tied[0]]}/10, and ${TIE_BREAK_LABELS[tieResult.rule]} could not separate them`
+                : `Tied with ${tieResult.tied.filter(slot => slot !== winners[0]).map(getModelName).join(" and ")} on ${scores[tieResult.tied[0]]}/10, settled by ${TIE_BREAK_LABELS[tieResult.rule]}`}
+              {tieResult.runoff && (
+                <div className="text-gray-400 mt-1">
+                  {getJudgeName(tieResult.runoff.judge)}: {tieResult.runoff.reasoning}
+                </div>
+              )}
+            </div>
+          )}
+          {mismatches.map(verdict => (
+            <div key={verdict.judge} className="text-xs text-orange-400">
+              ⚠️ {getJudgeName(verdict.judge)} named {getModelName(verdict.winner)} the winner, but its own scores put{" "}
+              {getTopScored(verdict.scores).map(getModelName).join(" and ")} ahead
+            </div>
+          ))}
           <div className="text-sm text-gray-400 max-w-2xl mx-auto">
             {reasoning || "The winning pitch demonstrated superior market understanding, clear monetization strategy, and compelling value proposition for the target audience."}
           </div>
-          {error && (
-            <div className="text-xs text-red-400 mt-2">
-              ⚠️ {error}
+          {appliedCriteria && (
+            <div className="text-xs text-gray-500">
+              Weighted by:{" "}
+              {(Object.keys(JUDGING_CRITERION_LABELS) as JudgingCriterion[])
+                .map(criterion => `${JUDGING_CRITERION_LABELS[criterion]} ${Math.round(appliedCriteria[criterion] * 100)}%`)
+                .join(" · ")}
+            </div>
+          )}
+          {blindResult && (
+            <div className="text-xs text-gray-500">
+              Judged blind{blindResult.seed !== undefined && ` (seed ${blindResult.seed})`}:{" "}
+              {blindResult.order.map(slot => `Pitch ${blindResult.labels[slot]} = ${getModelName(slot)}`).join(" · ")}
+            </div>
+          )}
+          {panelResult && panelResult.verdicts.length + panelResult.failed.length > 1 && (
+            <div className="text-xs text-gray-400 space-y-1">
+              {panelResult.agreement !== undefined && (
+                <div className="text-gray-300 font-bold">
+                  Panel agreement: {Math.round(panelResult.agreement * 100)}%
+                </div>
+              )}
+              {panelResult.verdicts.map(verdict => (
+                <div key={verdict.judge}>
+                  <span className="text-yellow-400">{getJudgeName(verdict.judge)}</span> picked{" "}
+                  {getModelName(verdict.winner)}:{" "}
+                  {Object.values(verdict.scores)
+                    .map(({ slot, score }) => `${getModelName(slot)} ${score}`)
+                    .join(" · ")}
+                </div>
+              ))}
+              {panelResult.failed.map(failure => (
+                <div key={failure.judge} className="text-red-400">
+                  {getJudgeName(failure.judge)} did not vote: {failure.message}
+                </div>
+              ))}
             </div>
           )}
+          {/* Usage */}
+          <div className="text-xs text-gray-500 space-y-1">
+            <div>
+              Pitches: {formatTokens(pitchTotal)} · {formatCost(pitchTotal.costUSD)}
+            </div>
+            {judgeUsage && (
+              <div>
+                {panel.judges.length === 1 ? "Judge" : "Judges"}: {formatTokens(judgeUsage)} · {formatCost(judgeUsage.costUSD)}
+              </div>
+            )}
+            <div className="text-gray-400 font-bold">
+              Battle total: {formatTokens(battleTotal)} · {formatCost(battleTotal.costUSD)}
+            </div>
+          </div>
 
           <Button
             onClick={onReset}
@@ -180,8 +387,30 @@ export function JudgeVerdict({ pitches, concept, userGroup, onReset }: JudgeVerd
         </div>
       )}
 
+      {/* No verdict */}
+      {showVerdict && winners.length === 0 && error && (
+        <div className="text-center space-y-4">
+          <div className="text-xl text-gray-200">The judges could not reach a verdict.</div>
+          <div className="text-sm text-red-400">⚠️ {error}</div>
+          <div className="flex justify-center gap-4 mt-6">
+            <Button
+              onClick={retryJudging}
+              className="bg-yellow-500 hover:bg-yellow-600 text-black px-8 py-3 font-bold rounded-full"
+            >
+              JUDGE AGAIN
+            </Button>
+            <Button
+              onClick={onReset}
+              className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white px-8 py-3 font-bold rounded-full"
+            >
+              BATTLE AGAIN
+            </Button>
+          </div>
+        </div>
+      )}
+
       {!showVerdict && (
-        <div className="text-center">
+        <div className="text-center space-y-4">
           <div className="flex items-center justify-center gap-2 text-gray-400">
             <div className="flex gap-1">
               <div className="w-3 h-3 bg-yellow-400 rounded-full animate-bounce" />
@@ -190,6 +419,20 @@ export function JudgeVerdict({ pitches, concept, userGroup, onReset }: JudgeVerd
             </div>
             <span>Deliberating...</span>
           </div>
+          {blindResult && (
+            <div className="text-xs text-gray-500">
+              Judging blind: {blindResult.order.map(slot => `Pitch ${blindResult.labels[slot]} = ${getModelName(slot)}`).join(" · ")}
+            </div>
+          )}
+          {Object.entries(liveReasoning)
+            .filter(([, text]) => text.length > 0)
+            .map(([judge, text]) => (
+              <div key={judge} className="text-sm text-gray-300 max-w-2xl mx-auto text-left whitespace-pre-wrap">
+                {panel.judges.length > 1 && <div className="text-yellow-400 font-bold text-xs mb-1">{getJudgeName(judge)}</div>}
+                {text}
+                <span className="animate-pulse">▌</span>
+              </div>
+            ))}
         </div>
       )}
     </Card>
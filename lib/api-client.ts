@@ -4,24 +4,40 @@
 
 import {
   AIProvider,
+  SlotId,
   PitchRequest,
   PitchResponse,
   JudgeRequest,
   JudgeResponse,
-  API_TIMEOUTS
+  JudgeScore,
+  JudgePanelResult,
+  UsageReport,
+  PitchFinishReason,
+  HealthCheckResponse,
+  ModelProbeResult,
+  ServiceStatus,
+  API_TIMEOUTS,
+  JUDGE_CALL_LIMITS,
+  DEFAULT_JUDGE_PANEL,
+  DEFAULT_JUDGING_CRITERIA,
+  JUDGE_MODEL_CONFIG
 } from './types'
 
 import {
   parseAPIError,
+  createAPIError,
   withRetry,
   withTimeout,
   createAPIKeyError,
   generateMockPitch,
-  generateMockJudgeVerdict,
   executeWithFallbacks,
   FallbackStrategy,
   logError
 } from './error-handling'
+import { readPitchEvents } from './pitch-stream'
+import { countWinnerVotes } from './judge-panel'
+import { listPairs } from './pairwise-ranking'
+import { getProvider, getProviderIds } from './provider-registry'
 
 // -----------------------------------------------------------------------------
 // API Client Configuration
@@ -35,13 +51,42 @@ interface APIClientConfig {
   apiKeys?: Partial<Record<AIProvider, string>>
 }
 
+// Panel section for a verdict from the default judge alone (mock verdicts and
+// servers that predate judge panels)
+function createSingleJudgePanel(scores: Record<SlotId, JudgeScore>, winner: SlotId, reasoning?: string): JudgePanelResult {
+  const verdicts = [{
+    judge: JUDGE_MODEL_CONFIG.modelName,
+    scores,
+    winner,
+    reasoning: reasoning || 'Judge evaluation completed'
+  }]
+
+  return {
+    aggregation: DEFAULT_JUDGE_PANEL.aggregation,
+    verdicts,
+    failed: [],
+    winnerVotes: countWinnerVotes(verdicts, Object.keys(scores))
+  }
+}
+
+// How long to wait for a whole verdict. The server holds each judge model
+// call to API_TIMEOUTS.judge, and a judge may make several in a row: repair
+// attempts, its pairwise matchups a few at a time, and a tie's run-off.
+function getJudgeVerdictTimeout(request: Pick<JudgeRequest, 'mode' | 'tieBreak'> & { pitches: Record<SlotId, string> }): number {
+  const rounds = request.mode === 'pairwise'
+    ? Math.ceil(listPairs(Object.keys(request.pitches)).length / JUDGE_CALL_LIMITS.pairwiseConcurrency)
+    : 1
+  const runoff = request.tieBreak === 'runoff' ? 1 : 0
+  return (rounds + runoff) * (1 + JUDGE_CALL_LIMITS.repairAttempts) * API_TIMEOUTS.judge
+}
+
 export class APIClient {
   private config: Required<APIClientConfig>
 
   constructor(config: APIClientConfig = {}) {
     this.config = {
       baseURL: config.baseURL || '/api',
-      timeout: config.timeout || API_TIMEOUTS.pitch,
+      timeout: config.timeout || API_TIMEOUTS.stream,
       enableRetries: config.enableRetries ?? true,
       enableFallbacks: config.enableFallbacks ?? true,
       apiKeys: config.apiKeys || {}
@@ -112,7 +157,9 @@ export class APIClient {
         },
         body: JSON.stringify({
           concept: request.concept,
-          userGroup: request.userGroup
+          userGroup: request.userGroup,
+          modelConfig: request.modelConfig,
+          fallbackModels: request.fallbackModels
         })
       })
 
@@ -120,19 +167,55 @@ export class APIClient {
         throw await this.parseResponseError(response, provider)
       }
 
-      const data = await response.json()
-      
-      // Transform API response to our expected format
+      if (!response.body) {
+        throw createAPIError('STREAM_ERROR', 'No response body received', { provider, retryable: true })
+      }
+
+      // Collect the pitch stream into a single response
+      const startedAt = Date.now()
+      let id = `${provider}-${startedAt}`
+      let timestamp = new Date().toISOString()
+      let modelVersion: string | undefined
+      let fallbackFrom: string | undefined
+      let usage: UsageReport | undefined
+      let finishReason: PitchFinishReason | undefined
+      let content = ''
+
+      for await (const event of readPitchEvents(response.body)) {
+        switch (event.type) {
+          case 'start':
+            id = event.id
+            timestamp = event.timestamp
+            modelVersion = event.params.modelName
+            fallbackFrom = event.fallbackFrom
+            break
+          case 'text-delta':
+            content += event.chunk.content
+            break
+          case 'usage':
+            usage = event.usage
+            break
+          case 'finish':
+            finishReason = event.finishReason
+            break
+          case 'error':
+            throw event.error
+        }
+      }
+
       return {
-        id: `${provider}-${Date.now()}`,
+        id,
         provider,
-        content: data.pitch || data.content || 'No content generated',
+        content: content || 'No content generated',
         isComplete: true,
-        timestamp: data.timestamp || new Date().toISOString(),
+        timestamp,
         metadata: {
-          tokensUsed: data.tokensUsed,
-          processingTime: data.processingTime,
-          modelVersion: data.model
+          tokensUsed: usage?.totalTokens,
+          processingTime: Date.now() - startedAt,
+          modelVersion,
+          fallbackFrom,
+          usage,
+          finishReason
         }
       } as PitchResponse
     }
@@ -172,14 +255,10 @@ export class APIClient {
   // ---------------------------------------------------------------------------
 
   async generateJudgeVerdict(
-    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<AIProvider, string> }
+    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<SlotId, string> }
   ): Promise<JudgeResponse> {
     const operation = () => this.callJudgeAPI(request)
 
-    if (this.config.enableFallbacks) {
-      return this.generateJudgeVerdictWithFallbacks(request)
-    }
-
     if (this.config.enableRetries) {
       return withRetry(operation, {
         onRetry: (error, attempt) => {
@@ -191,27 +270,8 @@ export class APIClient {
     return operation()
   }
 
-  private async generateJudgeVerdictWithFallbacks(
-    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<AIProvider, string> }
-  ): Promise<JudgeResponse> {
-    const strategies: FallbackStrategy<JudgeResponse>[] = [
-      {
-        name: 'judge-api',
-        priority: 1,
-        execute: () => this.callJudgeAPI(request)
-      },
-      {
-        name: 'judge-mock',
-        priority: 2,
-        execute: () => this.generateMockJudgeResponse(request)
-      }
-    ]
-
-    return executeWithFallbacks(strategies)
-  }
-
   private async callJudgeAPI(
-    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<AIProvider, string> }
+    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<SlotId, string> }
   ): Promise<JudgeResponse> {
     const url = `${this.config.baseURL}/judge`
 
@@ -224,11 +284,15 @@ export class APIClient {
         body: JSON.stringify({
           concept: request.concept,
           userGroup: request.userGroup,
-          pitches: {
-            groq: request.pitches.groq,
-            openai: request.pitches.openai,
-            anthropic: request.pitches.anthropic
-          }
+          pitches: request.pitches,
+          truncated: request.truncated,
+          criteria: request.criteria,
+          panel: request.panel,
+          blind: request.blind,
+          blindSeed: request.blindSeed,
+          mode: request.mode,
+          ranking: request.ranking,
+          tieBreak: request.tieBreak
         })
       })
 
@@ -238,98 +302,34 @@ export class APIClient {
 
       const data = await response.json()
       
-      // Transform API response to our expected format
+      // The route only answers with a complete verdict; never make scores up
+      const missing = Object.keys(request.pitches).filter(slot => typeof data.scores?.[slot]?.score !== 'number')
+      if (missing.length > 0 || !(data.winner in request.pitches)) {
+        throw createAPIError('INVALID_RESPONSE_FORMAT', `Judge verdict is incomplete${missing.length > 0 ? `, no score for ${missing.join(', ')}` : ''}`)
+      }
+
+      const scores: Record<SlotId, JudgeScore> = Object.fromEntries(
+        Object.keys(request.pitches).map(slot => [slot, data.scores[slot] as JudgeScore])
+      )
+      const winner: SlotId = data.winner
+
       return {
-        id: `judge-${Date.now()}`,
-        scores: {
-          groq: {
-            provider: 'groq' as AIProvider,
-            score: data.scores?.pitch1?.overall || 7,
-            breakdown: {
-              marketViability: data.scores?.pitch1?.breakdown?.marketPotential || 7,
-              innovation: data.scores?.pitch1?.breakdown?.innovation || 7,
-              feasibility: data.scores?.pitch1?.breakdown?.clarity || 7,
-              presentation: data.scores?.pitch1?.breakdown?.presentation || 7,
-              monetization: 7
-            },
-            reasoning: data.reasoning || 'No detailed reasoning provided'
-          },
-          openai: {
-            provider: 'openai' as AIProvider,
-            score: data.scores?.pitch2?.overall || 7,
-            breakdown: {
-              marketViability: data.scores?.pitch2?.breakdown?.marketPotential || 7,
-              innovation: data.scores?.pitch2?.breakdown?.innovation || 7,
-              feasibility: data.scores?.pitch2?.breakdown?.clarity || 7,
-              presentation: data.scores?.pitch2?.breakdown?.presentation || 7,
-              monetization: 7
-            },
-            reasoning: data.reasoning || 'No detailed reasoning provided'
-          },
-          anthropic: {
-            provider: 'anthropic' as AIProvider,
-            score: Math.floor(Math.random() * 3) + 7, // Random score for anthropic
-            breakdown: {
-              marketViability: 7,
-              innovation: 8,
-              feasibility: 7,
-              presentation: 8,
-              monetization: 7
-            },
-            reasoning: 'Anthropic pitch evaluated based on ethical AI principles'
-          }
-        },
-        winner: data.winner === 'groq' ? 'groq' : 
-               data.winner === 'openai' ? 'openai' : 'anthropic',
-        overallReasoning: data.verdict || data.reasoning || 'Judge evaluation completed',
+        id: data.id || `judge-${Date.now()}`,
+        scores,
+        winner,
+        overallReasoning: data.overallReasoning || 'Judge evaluation completed',
+        criteria: data.criteria || request.criteria || DEFAULT_JUDGING_CRITERIA,
+        panel: data.panel || createSingleJudgePanel(scores, winner, data.overallReasoning),
+        tie: data.tie,
+        blind: data.blind,
+        mode: data.mode || request.mode || 'scorecard',
+        pairwise: data.pairwise,
         timestamp: data.timestamp || new Date().toISOString(),
-        metadata: {
-          tokensUsed: data.tokensUsed,
-          processingTime: data.processingTime,
-          confidence: Math.random() * 0.3 + 0.7 // 70-100% confidence
-        }
+        metadata: data.metadata
       } as JudgeResponse
     }
 
-    return withTimeout(operation(), API_TIMEOUTS.judge)
-  }
-
-  private async generateMockJudgeResponse(
-    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<AIProvider, string> }
-  ): Promise<JudgeResponse> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000))
-
-    const mockVerdict = generateMockJudgeVerdict(request.pitches)
-
-    return {
-      id: `mock-judge-${Date.now()}`,
-      scores: Object.fromEntries(
-        Object.entries(mockVerdict.scores).map(([provider, score]) => [
-          provider,
-          {
-            provider: provider as AIProvider,
-            score,
-            breakdown: {
-              marketViability: Math.floor(Math.random() * 3) + 7,
-              innovation: Math.floor(Math.random() * 3) + 7,
-              feasibility: Math.floor(Math.random() * 3) + 7,
-              presentation: Math.floor(Math.random() * 3) + 7,
-              monetization: Math.floor(Math.random() * 3) + 7
-            },
-            reasoning: `${provider.toUpperCase()} showed strong performance across key metrics`
-          }
-        ])
-      ) as Record<AIProvider, any>,
-      winner: mockVerdict.winner,
-      overallReasoning: mockVerdict.reasoning,
-      timestamp: new Date().toISOString(),
-      metadata: {
-        tokensUsed: Math.floor(Math.random() * 500) + 200,
-        processingTime: Math.floor(Math.random() * 2000) + 1000,
-        confidence: Math.random() * 0.2 + 0.8
-      }
-    }
+    return withTimeout(operation(), getJudgeVerdictTimeout(request))
   }
 
   // ---------------------------------------------------------------------------
@@ -343,15 +343,11 @@ monetization approach, and key differentiators. Keep it concise but comprehensiv
   }
 
   private hasValidAPIKey(provider: AIProvider): boolean {
-    // Check environment variables
-    const envKeys = {
-      groq: process.env.GROQ_API_KEY,
-      openai: process.env.OPENAI_API_KEY,
-      anthropic: process.env.ANTHROPIC_API_KEY
-    }
-
-    // Check provided keys or environment
-    const apiKey = this.config.apiKeys[provider] || envKeys[provider]
+    // Check provided keys or the provider's environment variable
+    const descriptor = getProvider(provider)
+    if (descriptor?.apiKeyOptional) return true
+    const envKey = descriptor?.envKey
+    const apiKey = this.config.apiKeys[provider] || (envKey ? process.env[envKey] : undefined)
     return !!(apiKey && apiKey !== 'your_' + provider + '_key_here')
   }
 
@@ -379,31 +375,42 @@ monetization approach, and key differentiators. Keep it concise but comprehensiv
   // Health Check Methods
   // ---------------------------------------------------------------------------
 
+  // Deep check: the server probes each configured model with a real
+  // completion (results cached server-side), so bad keys and retired models
+  // show up as 'unavailable'
   async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy'
     providers: Record<AIProvider, {
-      status: 'available' | 'unavailable' | 'no-key'
+      status: ServiceStatus
       hasApiKey: boolean
       lastChecked: string
+      latencyMs?: number
+      resolvedModel?: string
+      errorCode?: string
     }>
+    judge?: ModelProbeResult
   }> {
+    const response = await withTimeout(fetch(`${this.config.baseURL}/health?deep=1`), this.config.timeout)
+    if (!response.ok) {
+      throw await this.parseResponseError(response)
+    }
+
+    const health: HealthCheckResponse = await response.json()
     const providers = {} as Record<AIProvider, any>
-    
-    for (const provider of ['groq', 'openai', 'anthropic'] as AIProvider[]) {
-      const hasApiKey = this.hasValidAPIKey(provider)
-      
+
+    for (const provider of getProviderIds()) {
+      const probe = health.probes?.providers[provider]
       providers[provider] = {
-        status: hasApiKey ? 'available' : 'no-key',
-        hasApiKey,
-        lastChecked: new Date().toISOString()
+        status: health.services[provider] ?? 'unavailable',
+        hasApiKey: health.services[provider] !== 'no-key' && health.services[provider] !== 'not-configured',
+        lastChecked: probe?.checkedAt ?? health.timestamp,
+        latencyMs: probe?.latencyMs,
+        resolvedModel: probe?.resolvedModel,
+        errorCode: probe?.errorCode
       }
     }
 
-    const availableCount = Object.values(providers).filter(p => p.status === 'available').length
-    const status = availableCount === 3 ? 'healthy' : 
-                  availableCount > 0 ? 'degraded' : 'unhealthy'
-
-    return { status, providers }
+    return { status: health.status, providers, judge: health.probes?.judge }
   }
 
   async testProvider(provider: AIProvider): Promise<{
@@ -473,7 +480,7 @@ export function useAPIClient() {
   }, [])
 
   const generateJudgeVerdict = useCallback(async (
-    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<AIProvider, string> }
+    request: Omit<JudgeRequest, 'pitches'> & { pitches: Record<SlotId, string> }
   ) => {
     setLoading(true)
     setError(null)
@@ -0,0 +1,185 @@
+// =============================================================================
+// AI STARTUP BATTLE - AUDIENCE VOTING (SERVER ONLY)
+// =============================================================================
+//
+// A voting session runs alongside a battle's judging: the host screen opens
+// one and shows its short code, and attendees open /vote/<code> on their
+// phones to pick a favorite pitch. A device is recognized by a random id in
+// the VOTER_COOKIE cookie and votes once per session; clearing the cookie
+// gets another vote, so /api/vote/<code> also holds each IP to the 'ballot'
+// rate limit. Neither stops someone determined to stuff the box from many
+// addresses, which is fine for a room full of people.
+//
+// Voting closes when the host closes it or after VOTING_WINDOW_MS, and a
+// session is dropped RETENTION_MS after it closes. Sessions live in memory,
+// so voters must reach the server instance that opened the session.
+
+import { randomInt, randomUUID } from 'crypto'
+import { AudienceTally, SlotId, VoteSessionRequest, CONTESTANT_LIMITS } from './types'
+import { parseSlotId } from './provider-registry'
+import { createAPIError } from './error-handling'
+
+export const VOTER_COOKIE = 'battle-voter'
+export const VOTER_COOKIE_MAX_AGE = 24 * 60 * 60 // seconds
+
+const VOTING_WINDOW_MS = 15 * 60_000
+const RETENTION_MS = 30 * 60_000
+
+// Bounds on memory: open sessions at once, and votes in one session
+const MAX_SESSIONS = 200
+const MAX_VOTES_PER_SESSION = 2_000
+
+// Short enough to type from a projector; no 0/O or 1/I/L to misread
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 5
+
+const MAX_FIELD_LENGTH = 200
+
+export interface VoteSession {
+  code: string
+  hostToken: string
+  concept: string
+  userGroup: string
+  slots: SlotId[]
+  votes: Map<string, SlotId> // voter id -> slot
+  closesAt: number // ms since epoch; when the host closed it, if earlier
+  closed: boolean
+}
+
+const sessions = new Map<string, VoteSession>()
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+export function validateVoteSessionRequest(body: any): { isValid: boolean; error?: string } {
+  for (const field of ['concept', 'userGroup'] as const) {
+    if (typeof body[field] !== 'string' || body[field].trim().length === 0) {
+      return { isValid: false, error: `Missing or invalid ${field} field` }
+    }
+    if (body[field].length > MAX_FIELD_LENGTH) {
+      return { isValid: false, error: `${field} must be at most ${MAX_FIELD_LENGTH} characters` }
+    }
+  }
+
+  const { slots } = body
+  if (!Array.isArray(slots) || slots.length < CONTESTANT_LIMITS.min || slots.length > CONTESTANT_LIMITS.max) {
+    return {
+      isValid: false,
+      error: `slots must list between ${CONTESTANT_LIMITS.min} and ${CONTESTANT_LIMITS.max} pitches`,
+    }
+  }
+
+  for (const [index, slot] of slots.entries()) {
+    if (typeof slot !== 'string' || !parseSlotId(slot)) {
+      return { isValid: false, error: `Unknown contestant: ${slot}` }
+    }
+    if (slots.indexOf(slot) !== index) {
+      return { isValid: false, error: `Duplicate contestant: ${slot}` }
+    }
+  }
+
+  return { isValid: true }
+}
+
+// -----------------------------------------------------------------------------
+// Sessions
+// -----------------------------------------------------------------------------
+
+function createCode(): string {
+  let code: string
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('')
+  } while (sessions.has(code))
+  return code
+}
+
+function isOpen(session: VoteSession, now = Date.now()): boolean {
+  return !session.closed && now < session.closesAt
+}
+
+function scheduleRemoval(session: VoteSession, delayMs: number) {
+  setTimeout(() => {
+    if (sessions.get(session.code) === session) sessions.delete(session.code)
+  }, delayMs)
+}
+
+// Open a session for a validated request. Throws TOO_MANY_SESSIONS when
+// MAX_SESSIONS are open already.
+export function openVoteSession(request: VoteSessionRequest): VoteSession {
+  const now = Date.now()
+  const openCount = Array.from(sessions.values()).filter(session => isOpen(session, now)).length
+  if (openCount >= MAX_SESSIONS) {
+    throw createAPIError('TOO_MANY_SESSIONS', 'Too many voting sessions are open, try again later', { retryable: true })
+  }
+
+  const session: VoteSession = {
+    code: createCode(),
+    hostToken: randomUUID(),
+    concept: request.concept.trim(),
+    userGroup: request.userGroup.trim(),
+    slots: request.slots,
+    votes: new Map(),
+    closesAt: now + VOTING_WINDOW_MS,
+    closed: false,
+  }
+  sessions.set(session.code, session)
+  scheduleRemoval(session, VOTING_WINDOW_MS + RETENTION_MS)
+  return session
+}
+
+// Codes are matched case-insensitively, since people type them in
+export function getVoteSession(code: string): VoteSession | undefined {
+  return sessions.get(code.trim().toUpperCase())
+}
+
+export function createVoterId(): string {
+  return randomUUID()
+}
+
+// Record a device's vote. Failures are thrown as APIErrors: UNKNOWN_SLOT,
+// VOTING_CLOSED, ALREADY_VOTED or SESSION_FULL.
+export function castVote(session: VoteSession, voterId: string, slot: SlotId) {
+  if (!session.slots.includes(slot)) {
+    throw createAPIError('UNKNOWN_SLOT', `${slot} is not in this battle`)
+  }
+  if (!isOpen(session)) {
+    throw createAPIError('VOTING_CLOSED', 'Voting has closed for this battle')
+  }
+  if (session.votes.has(voterId)) {
+    throw createAPIError('ALREADY_VOTED', 'This device has already voted', {
+      details: { slot: session.votes.get(voterId) },
+    })
+  }
+  if (session.votes.size >= MAX_VOTES_PER_SESSION) {
+    throw createAPIError('SESSION_FULL', 'This vote has reached its limit of voters')
+  }
+
+  session.votes.set(voterId, slot)
+}
+
+// Close voting early; the tally stays readable until the session is dropped
+export function closeVoteSession(session: VoteSession) {
+  if (session.closed) return
+  session.closed = true
+  session.closesAt = Math.min(session.closesAt, Date.now())
+  scheduleRemoval(session, RETENTION_MS)
+}
+
+// The counts so far, as seen by voterId (if any)
+export function getTally(session: VoteSession, voterId?: string): AudienceTally {
+  const votes: Record<SlotId, number> = Object.fromEntries(session.slots.map(slot => [slot, 0]))
+  session.votes.forEach(slot => votes[slot]++)
+
+  return {
+    code: session.code,
+    concept: session.concept,
+    userGroup: session.userGroup,
+    slots: session.slots,
+    votes,
+    totalVotes: session.votes.size,
+    open: isOpen(session),
+    closesAt: new Date(session.closesAt).toISOString(),
+    myVote: voterId ? session.votes.get(voterId) : undefined,
+  }
+}
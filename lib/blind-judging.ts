@@ -0,0 +1,146 @@
+// =============================================================================
+// AI STARTUP BATTLE - BLIND JUDGING
+// =============================================================================
+//
+// In blind mode the judge sees "PITCH A", "PITCH B", ... in a shuffled order
+// instead of model labels in registry order, and the pitch text has model
+// names and AI self-references redacted. The shuffle comes from a seed that is
+// returned with the verdict, so a blind prompt can be rebuilt (and a recorded
+// cassette replayed) by sending the same seed again.
+
+import { BlindJudging, JudgePanelVerdict, JudgeScore, PairwiseComparison, PitchContent, SlotId } from './types'
+import { listProviders } from './provider-registry'
+
+// Only names specific enough not to damage a pitch that happens to be about
+// llamas or the mistral wind are redacted:
+// - vendor and product names that are not ordinary words, matched as written
+const VENDOR_NAMES = ['ChatGPT', 'OpenAI', 'Anthropic', 'Groq', 'Qwen', 'GPT']
+// - model families with a version, a tier or both after them ("Llama 3.3",
+//   "GPT-5", "Claude Sonnet", "Claude 3.5 Sonnet", "Claude Sonnet 4"); on
+//   their own, most are also words or first names
+const MODEL_FAMILIES = ['Claude', 'Llama', 'Gemma', 'Mistral', 'Qwen', 'GPT']
+const MODEL_VERSION = String.raw`[ -]?\d+(?:\.\d+)*(?:[\w-]*\w)?`
+const MODEL_TIER = String.raw`\s+(?:Opus|Sonnet|Haiku|Instant)`
+const MODEL_FAMILY_SUFFIX = `(?:${MODEL_VERSION}(?:${MODEL_TIER})?|${MODEL_TIER}(?:${MODEL_VERSION})?)`
+// - registry model ids and display names that carry a version number
+//   (checked with hasVersion), in any case
+const hasVersion = (term: string) => /\d/.test(term)
+
+// First-person model disclaimers: "As an AI language model, I ...". Only
+// the disclaimer is removed, and only when "I" follows it, so "As an
+// AI-powered platform, ..." or "As an AI startup, we ..." keep their opening.
+const SELF_REFERENCE = /\bas an? (?:ai(?: (?:language )?model| assistant)?|artificial intelligence(?: (?:language )?model)?|(?:large )?language model)\s*[,;:]?\s*(?=I(?:'m|'ve|'d)?\b)/gi
+
+const REDACTED = '[model]'
+
+export const MAX_BLIND_SEED = 2 ** 32 - 1
+
+export function createBlindSeed(): number {
+  return Math.floor(Math.random() * (MAX_BLIND_SEED + 1))
+}
+
+// mulberry32: small, fast and the same on every platform
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Letter the slots in the order given: the first is shown as PITCH A
+export function assignBlindLabels(order: SlotId[], seed?: number): BlindJudging {
+  return {
+    seed,
+    order,
+    labels: Object.fromEntries(order.map((slot, index) => [slot, String.fromCharCode(65 + index)])),
+  }
+}
+
+// Shuffle the slots with the seed and letter them in the order shown
+export function createBlindAssignment(slotIds: SlotId[], seed: number): BlindJudging {
+  const random = createRandom(seed)
+  const order = [...slotIds]
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swapped = order[i]
+    order[i] = order[j]
+    order[j] = swapped
+  }
+
+  return assignBlindLabels(order, seed)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Versioned registry ids and display names, longest first so "gpt-4o-mini"
+// goes before "gpt-4o"
+function getVersionedModelNames(): string[] {
+  const registryTerms = listProviders().flatMap(descriptor => [
+    descriptor.displayName,
+    descriptor.modelName,
+    ...descriptor.allowedModels,
+    ...Object.values(descriptor.modelDisplayNames ?? {}),
+  ])
+  return Array.from(new Set(registryTerms.filter(hasVersion))).sort((a, b) => b.length - a.length)
+}
+
+function wholeWords(patterns: string[], flags: string): RegExp | null {
+  return patterns.length > 0 ? new RegExp(`(?<!\\w)(?:${patterns.join('|')})(?!\\w)`, flags) : null
+}
+
+// Terms found in the battle's concept or user group are kept, since the
+// pitch has to be able to name its own subject. Versioned names go before
+// bare vendor names, so "GPT-4o-mini" is redacted whole rather than as "GPT".
+export function redactModelReferences(text: string, context: string[] = []): string {
+  const haystack = context.join(' ').toLowerCase()
+  const inContext = (term: string) => haystack.includes(term.toLowerCase())
+
+  const patterns = [
+    wholeWords(MODEL_FAMILIES.filter(term => !inContext(term)).map(term => `${escapeRegExp(term)}${MODEL_FAMILY_SUFFIX}`), 'g'),
+    wholeWords(getVersionedModelNames().filter(term => !inContext(term)).map(escapeRegExp), 'gi'),
+    wholeWords(VENDOR_NAMES.filter(term => !inContext(term)).map(escapeRegExp), 'g'),
+  ]
+
+  return patterns.reduce(
+    (redacted, pattern) => (pattern ? redacted.replace(pattern, REDACTED) : redacted),
+    text.replace(SELF_REFERENCE, '')
+  )
+}
+
+// The pitches keyed by letter, in the shuffled order, with model references
+// redacted
+export function anonymizePitches(pitches: PitchContent, blind: BlindJudging, context: string[] = []): PitchContent {
+  return Object.fromEntries(
+    blind.order.map(slot => [blind.labels[slot], redactModelReferences(pitches[slot], context)])
+  )
+}
+
+// Re-key a verdict given on lettered pitches to the contestants' slots
+export function unblindVerdict(verdict: JudgePanelVerdict, blind: BlindJudging): JudgePanelVerdict {
+  const slotFor = Object.fromEntries(blind.order.map(slot => [blind.labels[slot], slot]))
+
+  return {
+    ...verdict,
+    scores: Object.fromEntries(
+      blind.order.map((slot): [SlotId, JudgeScore] => [slot, { ...verdict.scores[blind.labels[slot]], slot }])
+    ),
+    winner: slotFor[verdict.winner] ?? verdict.winner,
+  }
+}
+
+// Re-key a head-to-head outcome given on lettered pitches to the slots
+export function unblindComparison(comparison: PairwiseComparison, blind: BlindJudging): PairwiseComparison {
+  const slotFor = Object.fromEntries(blind.order.map(slot => [blind.labels[slot], slot]))
+
+  return {
+    ...comparison,
+    shown: [slotFor[comparison.shown[0]], slotFor[comparison.shown[1]]],
+    winner: slotFor[comparison.winner],
+  }
+}
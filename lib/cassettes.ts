@@ -0,0 +1,186 @@
+// =============================================================================
+// AI STARTUP BATTLE - RECORD/REPLAY CASSETTES (SERVER ONLY)
+// =============================================================================
+//
+// CASSETTE_MODE=record writes every pitch and judge call to a JSON fixture in
+// CASSETTE_DIR (default fixtures/cassettes). CASSETTE_MODE=replay serves those
+// fixtures back through the same routes, chunk by chunk at the recorded pace,
+// without calling any provider. Fixtures are keyed by a hash of the prompt and
+// generation params, so a replayed pitch feeds the judge the exact prompt that
+// was recorded.
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { PitchFinishReason, TokenUsage } from './types'
+import type { PitchStreamPart } from './pitch-transports'
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export type CassetteKind = 'pitch' | 'judge'
+
+export interface CassetteParams {
+  modelName: string
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+}
+
+export interface CassetteChunk {
+  delayMs: number // time since the previous chunk (or the request) was received
+  text: string
+}
+
+export interface Cassette {
+  version: 1
+  kind: CassetteKind
+  subject: string // provider id for pitches, judge model for verdicts
+  promptHash: string
+  params: CassetteParams
+  chunks: CassetteChunk[]
+  text: string
+  usage?: TokenUsage
+  finishReason?: PitchFinishReason
+  servedModel?: string // fallback model that produced a pitch, if not params.modelName
+  recordedAt: string
+}
+
+export type CassetteOutcome = Pick<Cassette, 'usage' | 'finishReason' | 'servedModel'>
+
+export interface CassetteKey {
+  kind: CassetteKind
+  subject: string
+  prompt: string
+  params: CassetteParams
+}
+
+const CASSETTE_VERSION = 1
+const DEFAULT_CASSETTE_DIR = 'fixtures/cassettes'
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env.CASSETTE_MODE?.trim().toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'off'
+}
+
+function getCassetteDir(): string {
+  return path.resolve(process.cwd(), process.env.CASSETTE_DIR?.trim() || DEFAULT_CASSETTE_DIR)
+}
+
+export function hashPrompt(prompt: string, params: CassetteParams): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      prompt,
+      modelName: params.modelName,
+      temperature: params.temperature ?? null,
+      maxTokens: params.maxTokens ?? null,
+      topP: params.topP ?? null,
+    }))
+    .digest('hex')
+}
+
+function getCassettePath(kind: CassetteKind, subject: string, promptHash: string): string {
+  const safeSubject = subject.replace(/[^a-zA-Z0-9.-]/g, '_')
+  return path.join(getCassetteDir(), `${kind}-${safeSubject}-${promptHash.slice(0, 16)}.json`)
+}
+
+// -----------------------------------------------------------------------------
+// Storage
+// -----------------------------------------------------------------------------
+
+export async function loadCassette(key: CassetteKey): Promise<Cassette | null> {
+  const promptHash = hashPrompt(key.prompt, key.params)
+
+  try {
+    const cassette: Cassette = JSON.parse(await readFile(getCassettePath(key.kind, key.subject, promptHash), 'utf8'))
+    return cassette.version === CASSETTE_VERSION && cassette.promptHash === promptHash ? cassette : null
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+export async function saveCassette(key: CassetteKey, chunks: CassetteChunk[], outcome: CassetteOutcome = {}): Promise<Cassette> {
+  const promptHash = hashPrompt(key.prompt, key.params)
+  const cassette: Cassette = {
+    version: CASSETTE_VERSION,
+    kind: key.kind,
+    subject: key.subject,
+    promptHash,
+    params: key.params,
+    chunks,
+    text: chunks.map(chunk => chunk.text).join(''),
+    ...outcome,
+    recordedAt: new Date().toISOString(),
+  }
+
+  await mkdir(getCassetteDir(), { recursive: true })
+  await writeFile(getCassettePath(key.kind, key.subject, promptHash), JSON.stringify(cassette, null, 2))
+  return cassette
+}
+
+// -----------------------------------------------------------------------------
+// Recording
+// -----------------------------------------------------------------------------
+
+// Pass a pitch stream through unchanged while capturing each text chunk and
+// its timing, plus the reported usage and finish reason. The cassette is only
+// written once the stream finishes cleanly.
+export async function* recordPitchStream(
+  key: CassetteKey,
+  parts: AsyncIterable<PitchStreamPart>,
+  servedModel?: string
+): AsyncIterable<PitchStreamPart> {
+  const chunks: CassetteChunk[] = []
+  const outcome: CassetteOutcome = { servedModel }
+  let lastChunkAt = Date.now()
+
+  for await (const part of parts) {
+    if (part.type === 'text') {
+      const now = Date.now()
+      chunks.push({ delayMs: now - lastChunkAt, text: part.text })
+      lastChunkAt = now
+    } else if (part.type === 'usage') {
+      outcome.usage = part.usage
+    } else {
+      outcome.finishReason = part.finishReason
+    }
+    yield part
+  }
+
+  try {
+    await saveCassette(key, chunks, outcome)
+  } catch (error) {
+    console.error(`Failed to record ${key.kind} cassette for ${key.subject}:`, error)
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Replay
+// -----------------------------------------------------------------------------
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export async function* replayTextStream(cassette: Cassette): AsyncIterable<string> {
+  for (const chunk of cassette.chunks) {
+    if (chunk.delayMs > 0) {
+      await sleep(chunk.delayMs)
+    }
+    yield chunk.text
+  }
+}
+
+export async function* replayPitchStream(cassette: Cassette): AsyncIterable<PitchStreamPart> {
+  for await (const text of replayTextStream(cassette)) {
+    yield { type: 'text', text }
+  }
+  if (cassette.usage) {
+    yield { type: 'usage', usage: cassette.usage }
+  }
+  yield { type: 'finish', finishReason: cassette.finishReason ?? 'stop' }
+}
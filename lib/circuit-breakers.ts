@@ -0,0 +1,56 @@
+// =============================================================================
+// AI STARTUP BATTLE - CIRCUIT BREAKERS (SERVER ONLY)
+// =============================================================================
+//
+// One breaker per contestant provider and per judge model, shared by every
+// request this server handles. Once a provider keeps failing, its pitches fail
+// fast with CIRCUIT_BREAKER_OPEN instead of holding up each battle until the
+// deadline.
+
+import { AIProvider, CircuitBreakerReport, CIRCUIT_BREAKER_CONFIG, JUDGE_MODEL_CONFIG } from './types'
+import { CircuitBreaker } from './error-handling'
+import { getProvider, listProviders } from './provider-registry'
+
+const providerBreakers = new Map<AIProvider, CircuitBreaker>()
+const judgeBreakers = new Map<string, CircuitBreaker>()
+
+function createBreaker(name: string): CircuitBreaker {
+  return new CircuitBreaker({
+    ...CIRCUIT_BREAKER_CONFIG,
+    name,
+    onStateChange: state => console.warn(`Circuit breaker for ${name} is now ${state}`),
+  })
+}
+
+export function getProviderBreaker(provider: AIProvider): CircuitBreaker {
+  let breaker = providerBreakers.get(provider)
+  if (!breaker) {
+    breaker = createBreaker(getProvider(provider)?.displayName ?? provider)
+    providerBreakers.set(provider, breaker)
+  }
+  return breaker
+}
+
+export function getJudgeBreaker(modelName: string): CircuitBreaker {
+  let breaker = judgeBreakers.get(modelName)
+  if (!breaker) {
+    breaker = createBreaker(`Judge ${modelName}`)
+    judgeBreakers.set(modelName, breaker)
+  }
+  return breaker
+}
+
+// Every registered provider and the default judge are listed, including
+// breakers that have not seen a request yet
+export function getCircuitBreakerReport(): CircuitBreakerReport {
+  const judgeModels = new Set([JUDGE_MODEL_CONFIG.modelName, ...judgeBreakers.keys()])
+
+  return {
+    providers: Object.fromEntries(
+      listProviders().map(({ provider }) => [provider, getProviderBreaker(provider).getStatus()])
+    ),
+    judges: Object.fromEntries(
+      Array.from(judgeModels, modelName => [modelName, getJudgeBreaker(modelName).getStatus()])
+    ),
+  }
+}
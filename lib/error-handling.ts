@@ -8,6 +8,8 @@ import {
   RateLimitError, 
   ModelError, 
   AIProvider,
+  CircuitBreakerStatus,
+  CircuitState,
   isAPIError,
   isValidationError,
   isRateLimitError,
@@ -15,6 +17,7 @@ import {
   RETRY_CONFIG,
   API_TIMEOUTS
 } from './types'
+import { getProvider } from './provider-registry'
 
 // -----------------------------------------------------------------------------
 // Error Creation Utilities
@@ -273,26 +276,36 @@ export function withTimeout<T>(
 // Circuit Breaker Pattern
 // -----------------------------------------------------------------------------
 
-interface CircuitBreakerOptions {
+export interface CircuitBreakerOptions {
   failureThreshold: number
   resetTimeout: number
-  onStateChange?: (state: 'CLOSED' | 'OPEN' | 'HALF_OPEN') => void
+  name?: string // shown in the CIRCUIT_BREAKER_OPEN message
+  onStateChange?: (state: CircuitState) => void
 }
 
 export class CircuitBreaker {
   private failureCount = 0
   private lastFailureTime = 0
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED'
+  private state: CircuitState = 'CLOSED'
 
   constructor(private options: CircuitBreakerOptions) {}
 
-  async execute<T>(operation: () => Promise<T>): Promise<T> {
+  // isFailure lets callers skip errors that say nothing about the service,
+  // such as the client hanging up
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
     if (this.state === 'OPEN') {
       if (Date.now() - this.lastFailureTime > this.options.resetTimeout) {
         this.state = 'HALF_OPEN'
         this.options.onStateChange?.('HALF_OPEN')
       } else {
-        throw createAPIError('CIRCUIT_BREAKER_OPEN', 'Circuit breaker is open', { retryable: false })
+        const resetAt = new Date(this.lastFailureTime + this.options.resetTimeout).toISOString()
+        throw createAPIError(
+          'CIRCUIT_BREAKER_OPEN',
+          this.options.name
+            ? `${this.options.name} is unavailable after repeated failures`
+            : 'Circuit breaker is open',
+          { retryable: false, details: { failureCount: this.failureCount, resetAt } }
+        )
       }
     }
 
@@ -301,7 +314,9 @@ export class CircuitBreaker {
       this.onSuccess()
       return result
     } catch (error) {
-      this.onFailure()
+      if (isFailure(error)) {
+        this.onFailure()
+      }
       throw error
     }
   }
@@ -327,6 +342,21 @@ export class CircuitBreaker {
   getState() {
     return this.state
   }
+
+  // An open breaker whose reset timeout has passed is reported as HALF_OPEN,
+  // since the next request will be let through as a trial
+  getStatus(): CircuitBreakerStatus {
+    if (this.state !== 'OPEN') {
+      return { state: this.state, failureCount: this.failureCount }
+    }
+
+    const resetAt = this.lastFailureTime + this.options.resetTimeout
+    return {
+      state: Date.now() > resetAt ? 'HALF_OPEN' : 'OPEN',
+      failureCount: this.failureCount,
+      resetAt: new Date(resetAt).toISOString(),
+    }
+  }
 }
 
 // -----------------------------------------------------------------------------
@@ -424,45 +454,8 @@ Year 3: $20M ARR (7,000 customers)
 🌟 **Mission**: Democratizing AI for ${userGroup} worldwide`
   }
 
-  return templates[provider]
-}
-
-export function generateMockJudgeVerdict(pitches: Record<AIProvider, string>): {
-  winner: AIProvider
-  scores: Record<AIProvider, number>
-  reasoning: string
-} {
-  const scores = {
-    groq: Math.floor(Math.random() * 3) + 7, // 7-9
-    openai: Math.floor(Math.random() * 3) + 7, // 7-9
-    anthropic: Math.floor(Math.random() * 3) + 7 // 7-9
-  }
-
-  const winner = Object.entries(scores).reduce((a, b) => 
-    scores[a[0] as AIProvider] > scores[b[0] as AIProvider] ? a : b
-  )[0] as AIProvider
-
-  const reasoning = `After careful analysis of all three pitches, ${winner.toUpperCase()} emerges as the winner with a score of ${scores[winner]}/10.
-
-**Evaluation Criteria:**
-• **Market Viability**: How realistic and addressable is the market opportunity?
-• **Innovation**: How novel and differentiated is the solution?
-• **Execution**: How well thought-out is the go-to-market strategy?
-• **Presentation**: How clear and compelling is the pitch delivery?
-
-**${winner.toUpperCase()} excelled in:**
-${winner === 'groq' ? '• Speed and efficiency focus\n• Clear technical advantages\n• Strong traction metrics' : 
-  winner === 'openai' ? '• Comprehensive market analysis\n• Technical innovation depth\n• Solid financial projections' :
-  '• Ethical AI framework\n• Human-centric approach\n• Sustainable business model'}
-
-**Areas for improvement across all pitches:**
-• More specific customer validation data
-• Detailed competitive analysis
-• Risk mitigation strategies
-
-This was a close competition with all models delivering strong, viable startup concepts!`
-
-  return { winner, scores, reasoning }
+  const style = getProvider(provider)?.promptStyle ?? 'openai'
+  return templates[style]
 }
 
 // -----------------------------------------------------------------------------
@@ -0,0 +1,97 @@
+// =============================================================================
+// AI STARTUP BATTLE - DEEP HEALTH PROBES (SERVER ONLY)
+// =============================================================================
+//
+// A deep health check sends one minimal completion to every configured pitch
+// model and to the default judge, which catches revoked keys and retired models that
+// the env var check cannot. Results are cached for HEALTH_PROBE_TTL_MS
+// (default 60s) so polling the health endpoint does not hammer the providers.
+
+import { API_TIMEOUTS, JUDGE_MODEL_CONFIG, ModelConfig, ModelProbeResult, ProviderDescriptor } from './types'
+import { requireProvider } from './provider-registry'
+import { resolveProviderConnection } from './provider-connections'
+import { probeModel } from './pitch-transports'
+
+const DEFAULT_PROBE_TTL_MS = 60_000
+
+// Keyed by subject and model. Probes still in flight are cached too, so
+// concurrent deep checks share one provider call.
+const probeCache = new Map<string, { expiresAt: number; result: Promise<ModelProbeResult> }>()
+
+function getProbeTTL(): number {
+  const ttl = Number(process.env.HEALTH_PROBE_TTL_MS)
+  return process.env.HEALTH_PROBE_TTL_MS && Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_PROBE_TTL_MS
+}
+
+// Same codes the pitch and judge routes answer with
+function getProbeErrorCode(error: unknown): string {
+  const status = (error as { statusCode?: number; status?: number } | null)?.statusCode ??
+    (error as { status?: number } | null)?.status
+
+  if (status === 401 || status === 403) return 'AUTH_ERROR'
+  if (status === 404) return 'MODEL_ERROR'
+  if (status === 429) return 'RATE_LIMIT_ERROR'
+  if (status !== undefined && status >= 500) return 'SERVER_OVERLOAD_ERROR'
+
+  const message = error instanceof Error ? error.message : String(error)
+  if (message.includes('model')) return 'MODEL_ERROR'
+  if (message.includes('ECONNREFUSED') || message.includes('fetch failed')) return 'NETWORK_ERROR'
+  return 'PROBE_FAILED'
+}
+
+async function runProbe(model: string, probe: (signal: AbortSignal) => Promise<string>): Promise<ModelProbeResult> {
+  const startedAt = Date.now()
+  const signal = AbortSignal.timeout(API_TIMEOUTS.firstToken)
+
+  try {
+    const resolvedModel = await probe(signal)
+    return {
+      ok: true,
+      model,
+      resolvedModel,
+      latencyMs: Date.now() - startedAt,
+      checkedAt: new Date().toISOString(),
+    }
+  } catch (error) {
+    console.warn(`Health probe for ${model} failed:`, error instanceof Error ? error.message : error)
+    return {
+      ok: false,
+      model,
+      latencyMs: Date.now() - startedAt,
+      errorCode: signal.aborted ? 'TIMEOUT_ERROR' : getProbeErrorCode(error),
+      checkedAt: new Date().toISOString(),
+    }
+  }
+}
+
+function cachedProbe(key: string, model: string, probe: (signal: AbortSignal) => Promise<string>): Promise<ModelProbeResult> {
+  const now = Date.now()
+  const cached = probeCache.get(key)
+  if (cached && cached.expiresAt > now) {
+    return cached.result
+  }
+
+  const result = runProbe(model, probe)
+  probeCache.set(key, { expiresAt: now + getProbeTTL(), result })
+  return result
+}
+
+// Probes the model the provider is configured with (env overrides included)
+export function probeProvider(descriptor: ProviderDescriptor): Promise<ModelProbeResult> {
+  const connection = resolveProviderConnection(descriptor)
+  const { modelName } = connection
+
+  return cachedProbe(`pitch:${descriptor.provider}:${modelName}`, modelName, signal =>
+    probeModel({ descriptor, connection, modelName, signal })
+  )
+}
+
+// Judges run on their provider's credentials and endpoint
+export function probeJudge(judge: ModelConfig = JUDGE_MODEL_CONFIG): Promise<ModelProbeResult> {
+  const descriptor = requireProvider(judge.provider)
+  const connection = resolveProviderConnection(descriptor)
+
+  return cachedProbe(`judge:${judge.modelName}`, judge.modelName, signal =>
+    probeModel({ descriptor, connection, modelName: judge.modelName, signal })
+  )
+}
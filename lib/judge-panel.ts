@@ -0,0 +1,262 @@
+// =============================================================================
+// AI STARTUP BATTLE - JUDGE PANELS
+// =============================================================================
+//
+// A panel is one or more judge models scoring the same pitches independently.
+// Their verdicts are combined by the panel's aggregation rule (in pairwise
+// mode, by pooling their head-to-head outcomes), and how far the judges agree
+// on the ranking is reported alongside. A panel of one judge gives that
+// judge's verdict unchanged. Pitches level at the top are left to a tie-break
+// rule, which may let the tie stand.
+
+import {
+  CriterionScores,
+  JudgeAggregation,
+  JudgePanelVerdict,
+  JudgeScore,
+  JudgingCriteria,
+  JudgingCriterion,
+  ModelConfig,
+  PairwiseComparison,
+  PairwiseRanking,
+  PairwiseStanding,
+  SlotId,
+  TieBreakRule,
+  JUDGE_MODELS,
+  JUDGE_PANEL_LIMITS,
+  JUDGING_CRITERION_LABELS
+} from './types'
+import { computeOverallScore } from './prompt-templates'
+import { describeMatchups, rankPairwise } from './pairwise-ranking'
+
+const AGGREGATIONS: JudgeAggregation[] = ['mean', 'median', 'majority']
+
+export const TIE_BREAK_RULES: TieBreakRule[] = ['declared', 'breakdown', 'runoff']
+
+const CRITERIA = Object.keys(JUDGING_CRITERION_LABELS) as JudgingCriterion[]
+
+export function getJudgeModel(modelName: string): ModelConfig | undefined {
+  return JUDGE_MODELS.find(judge => judge.modelName === modelName)
+}
+
+export function validateJudgePanel(panel: any): { isValid: boolean; error?: string } {
+  if (!panel || typeof panel !== 'object' || Array.isArray(panel)) {
+    return { isValid: false, error: 'panel must be an object' }
+  }
+
+  if (!AGGREGATIONS.includes(panel.aggregation)) {
+    return { isValid: false, error: `panel.aggregation must be one of: ${AGGREGATIONS.join(', ')}` }
+  }
+
+  const { judges } = panel
+  if (!Array.isArray(judges) || judges.length < JUDGE_PANEL_LIMITS.min || judges.length > JUDGE_PANEL_LIMITS.max) {
+    return {
+      isValid: false,
+      error: `A panel needs between ${JUDGE_PANEL_LIMITS.min} and ${JUDGE_PANEL_LIMITS.max} judges`,
+    }
+  }
+
+  for (const [index, judge] of judges.entries()) {
+    if (typeof judge !== 'string' || !getJudgeModel(judge)) {
+      return { isValid: false, error: `Unknown judge: ${judge}` }
+    }
+    if (judges.indexOf(judge) !== index) {
+      return { isValid: false, error: `Duplicate judge: ${judge}` }
+    }
+  }
+
+  return { isValid: true }
+}
+
+// -----------------------------------------------------------------------------
+// Aggregation
+// -----------------------------------------------------------------------------
+
+export interface PanelDecision {
+  scores: Record<SlotId, JudgeScore>
+  winner: SlotId
+  leaders: SlotId[] // level at the top of the ranking, best placed first
+  reasoning: string
+  winnerVotes: Record<SlotId, number>
+  agreement?: number
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Each criterion combined across the judges, to one decimal. Scorecard
+// verdicts always carry a breakdown.
+function combineBreakdowns(
+  verdicts: JudgePanelVerdict[],
+  slot: SlotId,
+  combine: (values: number[]) => number
+): CriterionScores {
+  return Object.fromEntries(
+    CRITERIA.map(criterion => [
+      criterion,
+      Math.round(combine(verdicts.map(verdict => verdict.scores[slot].breakdown![criterion])) * 10) / 10,
+    ])
+  ) as CriterionScores
+}
+
+export function countWinnerVotes(verdicts: JudgePanelVerdict[], slotIds: SlotId[]): Record<SlotId, number> {
+  const votes: Record<SlotId, number> = Object.fromEntries(slotIds.map(slot => [slot, 0]))
+  verdicts.forEach(({ winner }) => {
+    if (winner in votes) votes[winner]++
+  })
+  return votes
+}
+
+// Share of pitch pairs that two judges order the same way by overall score,
+// averaged over every pair of judges. A tie on one side only counts half.
+// Undefined when there is nobody to agree with.
+export function computeAgreement(verdicts: JudgePanelVerdict[], slotIds: SlotId[]): number | undefined {
+  if (verdicts.length < 2 || slotIds.length < 2) {
+    return undefined
+  }
+
+  const order = (verdict: JudgePanelVerdict, a: SlotId, b: SlotId) =>
+    Math.sign(verdict.scores[a].score - verdict.scores[b].score)
+
+  let total = 0
+  let judgePairs = 0
+  for (let i = 0; i < verdicts.length; i++) {
+    for (let j = i + 1; j < verdicts.length; j++) {
+      let concordant = 0
+      let slotPairs = 0
+      for (let a = 0; a < slotIds.length; a++) {
+        for (let b = a + 1; b < slotIds.length; b++) {
+          const left = order(verdicts[i], slotIds[a], slotIds[b])
+          const right = order(verdicts[j], slotIds[a], slotIds[b])
+          concordant += left === right ? 1 : left === 0 || right === 0 ? 0.5 : 0
+          slotPairs++
+        }
+      }
+      total += concordant / slotPairs
+      judgePairs++
+    }
+  }
+
+  return Math.round((total / judgePairs) * 100) / 100
+}
+
+// The pitches that compare level with the first of ranked
+function findLeaders(ranked: SlotId[], compare: (a: SlotId, b: SlotId) => number): SlotId[] {
+  return ranked.filter(slot => compare(ranked[0], slot) === 0)
+}
+
+// Combine the verdicts of every judge that answered. 'mean' and 'median'
+// rank by the combined scores; 'majority' ranks by votes and falls back to
+// the mean scores. Pitches still level are all leaders, and winner picks one
+// of them once a tie-break has (the first otherwise). The reasoning shown is
+// that of the first judge who picked the panel's winner.
+export function aggregateVerdicts(
+  verdicts: JudgePanelVerdict[],
+  slotIds: SlotId[],
+  aggregation: JudgeAggregation,
+  criteria: JudgingCriteria,
+  winner?: SlotId
+): PanelDecision {
+  const winnerVotes = countWinnerVotes(verdicts, slotIds)
+  const combine = aggregation === 'median' ? median : mean
+
+  const breakdowns = Object.fromEntries(
+    slotIds.map(slot => [slot, combineBreakdowns(verdicts, slot, combine)])
+  ) as Record<SlotId, CriterionScores>
+  const overall = (slot: SlotId) => computeOverallScore(breakdowns[slot], criteria)
+
+  const byScore = (a: SlotId, b: SlotId) => overall(b) - overall(a)
+  const byVotes = (a: SlotId, b: SlotId) => winnerVotes[b] - winnerVotes[a]
+  const compare = (a: SlotId, b: SlotId) => (aggregation === 'majority' ? byVotes(a, b) || byScore(a, b) : byScore(a, b))
+  const leaders = findLeaders([...slotIds].sort(compare), compare)
+  const decided = winner && leaders.includes(winner) ? winner : leaders[0]
+  const spokesperson = verdicts.find(verdict => verdict.winner === decided) ?? verdicts[0]
+
+  const scores: Record<SlotId, JudgeScore> = Object.fromEntries(
+    slotIds.map((slot): [SlotId, JudgeScore] => [
+      slot,
+      {
+        slot,
+        score: overall(slot),
+        breakdown: breakdowns[slot],
+        reasoning: spokesperson.scores[slot].reasoning,
+      },
+    ])
+  )
+
+  return {
+    scores,
+    winner: decided,
+    leaders,
+    reasoning: spokesperson.reasoning,
+    winnerVotes,
+    agreement: computeAgreement(verdicts, slotIds),
+  }
+}
+
+// Rank the pitches from every judge's head-to-head outcomes pooled together.
+// Votes and agreement come from each judge's own ranking (its verdict); the
+// reasoning shown is the winner's matchups as seen by the first judge who
+// picked it. Pitches on the same score are all leaders, as above.
+export function aggregatePairwise(
+  verdicts: JudgePanelVerdict[],
+  comparisons: PairwiseComparison[],
+  slotIds: SlotId[],
+  ranking: PairwiseRanking,
+  winner?: SlotId
+): PanelDecision & { standings: Record<SlotId, PairwiseStanding> } {
+  const { scores, standings, order } = rankPairwise(slotIds, comparisons, ranking)
+  const leaders = findLeaders(order, (a, b) => scores[b] - scores[a])
+  const decided = winner && leaders.includes(winner) ? winner : leaders[0]
+  const spokesperson = verdicts.find(verdict => verdict.winner === decided) ?? verdicts[0]
+  const spokespersonComparisons = comparisons.filter(comparison => comparison.judge === spokesperson.judge)
+
+  return {
+    scores: Object.fromEntries(
+      slotIds.map((slot): [SlotId, JudgeScore] => [
+        slot,
+        { slot, score: scores[slot], reasoning: describeMatchups(spokespersonComparisons, slot) },
+      ])
+    ),
+    winner: decided,
+    leaders,
+    reasoning: describeMatchups(spokespersonComparisons, decided),
+    winnerVotes: countWinnerVotes(verdicts, slotIds),
+    agreement: computeAgreement(verdicts, slotIds),
+    standings,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Tie-Breaks
+// -----------------------------------------------------------------------------
+
+// The tied pitches the most judges named as winner
+export function breakTieByVotes(tied: SlotId[], winnerVotes: Record<SlotId, number>): SlotId[] {
+  const most = Math.max(...tied.map(slot => winnerVotes[slot]))
+  return tied.filter(slot => winnerVotes[slot] === most)
+}
+
+// The tied pitches ahead on the most heavily weighted criterion, narrowed on
+// the next one while more than one is left. Equal weights go in criterion
+// order.
+export function breakTieByBreakdown(
+  tied: SlotId[],
+  scores: Record<SlotId, JudgeScore>,
+  criteria: JudgingCriteria
+): SlotId[] {
+  let remaining = tied
+  for (const criterion of [...CRITERIA].sort((a, b) => criteria[b] - criteria[a])) {
+    if (remaining.length === 1) break
+    const best = Math.max(...remaining.map(slot => scores[slot].breakdown![criterion]))
+    remaining = remaining.filter(slot => scores[slot].breakdown![criterion] === best)
+  }
+  return remaining
+}
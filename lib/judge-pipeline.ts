@@ -0,0 +1,745 @@
+// =============================================================================
+// AI STARTUP BATTLE - JUDGE PIPELINE (SERVER ONLY)
+// =============================================================================
+//
+// Everything between a validated JudgeRequest and a verdict: building the
+// (optionally blind) prompt, running each panel judge behind its circuit
+// breaker or from a cassette, aggregating their scorecards and settling a
+// tie for first place. The judges' reasoning is reported as it streams in, for /api/judge's event stream.
+// Shared by /api/judge and the position-bias audit at /api/judge/audit.
+
+import { parsePartialJson } from 'ai'
+import { z } from 'zod'
+import {
+  BlindJudging,
+  JudgePanelResult,
+  JudgePanelFailure,
+  JudgePanelVerdict,
+  JudgeProgressEvent,
+  JudgeRequest,
+  JudgingMode,
+  PairwiseComparison,
+  PairwiseRanking,
+  PairwiseResult,
+  JudgeScore,
+  JudgeTie,
+  JudgingCriteria,
+  ModelConfig,
+  PitchContent,
+  SlotId,
+  TieBreakRule,
+  TokenUsage,
+  UsageReport,
+  CONTESTANT_LIMITS,
+  DEFAULT_JUDGE_PANEL,
+  DEFAULT_JUDGING_CRITERIA,
+  API_TIMEOUTS,
+  JUDGE_CALL_LIMITS,
+  isAPIError
+} from './types'
+import { parseSlotId, requireProvider } from './provider-registry'
+import { hasProviderCredentials, resolveProviderConnection } from './provider-connections'
+import { parseStructuredText, streamStructuredCompletion } from './pitch-transports'
+import {
+  PanelDecision,
+  aggregatePairwise,
+  aggregateVerdicts,
+  breakTieByBreakdown,
+  breakTieByVotes,
+  getJudgeModel,
+  validateJudgePanel,
+  TIE_BREAK_RULES
+} from './judge-panel'
+import { describeMatchups, listPairs, rankPairwise, PAIRWISE_RANKINGS } from './pairwise-ranking'
+import {
+  anonymizePitches,
+  assignBlindLabels,
+  createBlindAssignment,
+  createBlindSeed,
+  unblindComparison,
+  unblindVerdict,
+  MAX_BLIND_SEED
+} from './blind-judging'
+import { createAPIError } from './error-handling'
+import {
+  createJudgeOutputSchema,
+  createPairwiseOutputSchema,
+  createRunoffOutputSchema,
+  getJudgePrompt,
+  getPairwiseJudgePrompt,
+  getRunoffJudgePrompt,
+  JudgeParams,
+  getJudgeRepairPrompt,
+  validateJudgingCriteria,
+  normalizeScores,
+  computeOverallScore
+} from './prompt-templates'
+import { CassetteChunk, CassetteKey, CassetteMode, loadCassette, replayTextStream, saveCassette } from './cassettes'
+import { createUsageReport, sumUsage } from './pricing'
+import { getJudgeBreaker } from './circuit-breakers'
+
+// -----------------------------------------------------------------------------
+// Request Validation
+// -----------------------------------------------------------------------------
+
+export function validateJudgeRequest(body: any): { isValid: boolean; error?: string } {
+  if (!body.concept || typeof body.concept !== 'string') {
+    return { isValid: false, error: 'Missing or invalid concept field' }
+  }
+
+  if (!body.userGroup || typeof body.userGroup !== 'string') {
+    return { isValid: false, error: 'Missing or invalid userGroup field' }
+  }
+
+  if (!body.pitches || typeof body.pitches !== 'object') {
+    return { isValid: false, error: 'Missing or invalid pitches field' }
+  }
+
+  const slotIds = Object.keys(body.pitches)
+  if (slotIds.length < CONTESTANT_LIMITS.min || slotIds.length > CONTESTANT_LIMITS.max) {
+    return {
+      isValid: false,
+      error: `A battle needs between ${CONTESTANT_LIMITS.min} and ${CONTESTANT_LIMITS.max} pitches, got ${slotIds.length}`,
+    }
+  }
+
+  for (const slotId of slotIds) {
+    if (!parseSlotId(slotId)) {
+      return { isValid: false, error: `Unknown contestant: ${slotId}` }
+    }
+    if (!body.pitches[slotId] || typeof body.pitches[slotId] !== 'string') {
+      return { isValid: false, error: `Missing or invalid pitch for ${slotId}` }
+    }
+    if (body.pitches[slotId].trim().length === 0) {
+      return { isValid: false, error: `Empty pitch content for ${slotId}` }
+    }
+  }
+
+  if (body.truncated !== undefined) {
+    if (!Array.isArray(body.truncated) || body.truncated.some((slotId: unknown) => typeof slotId !== 'string' || !Object.hasOwn(body.pitches, slotId))) {
+      return { isValid: false, error: 'truncated must list slot ids from pitches' }
+    }
+  }
+
+  if (body.criteria !== undefined) {
+    const criteriaValidation = validateJudgingCriteria(body.criteria)
+    if (!criteriaValidation.isValid) {
+      return criteriaValidation
+    }
+  }
+
+  if (body.panel !== undefined) {
+    const panelValidation = validateJudgePanel(body.panel)
+    if (!panelValidation.isValid) {
+      return panelValidation
+    }
+  }
+
+  if (body.blind !== undefined && typeof body.blind !== 'boolean') {
+    return { isValid: false, error: 'blind must be a boolean' }
+  }
+
+  if (body.blindSeed !== undefined) {
+    if (!body.blind) {
+      return { isValid: false, error: 'blindSeed is only used with blind: true' }
+    }
+    if (!Number.isInteger(body.blindSeed) || body.blindSeed < 0 || body.blindSeed > MAX_BLIND_SEED) {
+      return { isValid: false, error: `blindSeed must be an integer from 0 to ${MAX_BLIND_SEED}` }
+    }
+  }
+
+  if (body.mode !== undefined && body.mode !== 'scorecard' && body.mode !== 'pairwise') {
+    return { isValid: false, error: "mode must be 'scorecard' or 'pairwise'" }
+  }
+
+  if (body.ranking !== undefined) {
+    if (body.mode !== 'pairwise') {
+      return { isValid: false, error: "ranking is only used with mode: 'pairwise'" }
+    }
+    if (!PAIRWISE_RANKINGS.includes(body.ranking)) {
+      return { isValid: false, error: `ranking must be one of: ${PAIRWISE_RANKINGS.join(', ')}` }
+    }
+  }
+
+  if (body.tieBreak !== undefined) {
+    if (!TIE_BREAK_RULES.includes(body.tieBreak)) {
+      return { isValid: false, error: `tieBreak must be one of: ${TIE_BREAK_RULES.join(', ')}` }
+    }
+    if (body.tieBreak === 'breakdown' && body.mode === 'pairwise') {
+      return { isValid: false, error: "tieBreak 'breakdown' needs criterion scores, which mode: 'pairwise' does not give" }
+    }
+  }
+
+  if (body.concept.trim().length === 0) {
+    return { isValid: false, error: 'Concept cannot be empty' }
+  }
+
+  if (body.userGroup.trim().length === 0) {
+    return { isValid: false, error: 'User group cannot be empty' }
+  }
+
+  return { isValid: true }
+}
+
+export function getPanelJudges(request: JudgeRequest): ModelConfig[] {
+  return (request.panel ?? DEFAULT_JUDGE_PANEL).judges.map(modelName => getJudgeModel(modelName)!)
+}
+
+// The first judge whose provider has no API key, if any
+export function findUnconfiguredJudge(judges: ModelConfig[]): ModelConfig | undefined {
+  return judges.find(judge => !hasProviderCredentials(requireProvider(judge.provider)))
+}
+
+// -----------------------------------------------------------------------------
+// Single Judge
+// -----------------------------------------------------------------------------
+
+interface JudgeOutputOptions<T> {
+  prompt: string
+  schema: z.ZodType<T>
+  cassetteMode: CassetteMode
+  signal: AbortSignal
+  onProgress?: (event: JudgeProgressEvent) => void
+}
+
+// Follow the reasoning in a judge's partial JSON output as it grows and
+// report what was added. The verdict schemas list reasoning first, so it is
+// written (and streamed) before the scores.
+function createReasoningReporter(judge: string, onProgress?: (event: JudgeProgressEvent) => void) {
+  let reported = ''
+  let complete = false
+
+  return async (text: string) => {
+    if (!onProgress || complete) return
+
+    const { value } = await parsePartialJson(text)
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return
+
+    const reasoning = value.reasoning
+    if (typeof reasoning !== 'string') return
+    if (reasoning.length > reported.length && reasoning.startsWith(reported)) {
+      onProgress({ type: 'reasoning-delta', judge, text: reasoning.slice(reported.length) })
+      reported = reasoning
+    }
+    // A key after reasoning means its closing quote has been written
+    const keys = Object.keys(value)
+    complete = keys[keys.length - 1] !== 'reasoning'
+  }
+}
+
+interface JudgeDeadline {
+  readonly signal: AbortSignal // aborted by the deadline or by the request's signal
+  readonly expired: boolean
+  clear(): void
+}
+
+// Start the API_TIMEOUTS.judge deadline for one judge model call, like
+// createPitchDeadline does for a pitch. clear() must be called once the call
+// is over.
+function createJudgeDeadline(signal: AbortSignal): JudgeDeadline {
+  const upstream = new AbortController()
+  let expired = false
+
+  const onAbort = () => upstream.abort()
+  signal.addEventListener('abort', onAbort, { once: true })
+  if (signal.aborted) upstream.abort()
+
+  const timer = setTimeout(() => {
+    expired = true
+    upstream.abort()
+  }, API_TIMEOUTS.judge)
+
+  return {
+    signal: upstream.signal,
+    get expired() {
+      return expired
+    },
+    clear() {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
+// Get one answer from a judge that matches schema, replayed from a cassette
+// or generated behind the judge's circuit breaker. Failures are thrown as
+// APIErrors.
+async function requestJudgeOutput<T>(
+  judge: ModelConfig,
+  { prompt, schema, cassetteMode, signal, onProgress }: JudgeOutputOptions<T>
+): Promise<{ output: T; usage: TokenUsage }> {
+  const cassetteKey: CassetteKey = {
+    kind: 'judge',
+    subject: judge.modelName,
+    prompt,
+    params: {
+      modelName: judge.modelName,
+      temperature: judge.temperature,
+      maxTokens: judge.maxTokens,
+      topP: judge.topP,
+    },
+  }
+
+  if (cassetteMode === 'replay') {
+    const cassette = await loadCassette(cassetteKey)
+    if (!cassette) {
+      throw createAPIError('CASSETTE_MISS', 'No recorded verdict matches these pitches')
+    }
+    const reportReasoning = createReasoningReporter(judge.modelName, onProgress)
+    let text = ''
+    for await (const chunk of replayTextStream(cassette)) {
+      text += chunk
+      await reportReasoning(text)
+    }
+    const recorded = parseStructuredText(schema, text)
+    if (!recorded.isValid) {
+      throw createAPIError('INVALID_RESPONSE_FORMAT', 'The recorded verdict does not match the verdict schema', {
+        details: { issues: recorded.error },
+      })
+    }
+    return { output: recorded.object, usage: cassette.usage ?? {} }
+  }
+
+  const descriptor = requireProvider(judge.provider)
+  const usages: TokenUsage[] = []
+  let attemptPrompt = prompt
+
+  // Invalid output is not a provider failure, so it stays out of the breaker
+  for (let attempt = 1; ; attempt++) {
+    if (attempt > 1) {
+      onProgress?.({ type: 'retry', judge: judge.modelName, attempt })
+    }
+    const reportReasoning = createReasoningReporter(judge.modelName, onProgress)
+    const chunks: CassetteChunk[] = []
+    let lastChunkAt = Date.now()
+    let text = ''
+
+    // Each call gets API_TIMEOUTS.judge; running out counts against the
+    // judge's breaker, a client hanging up does not
+    const deadline = createJudgeDeadline(signal)
+    const completion = await getJudgeBreaker(judge.modelName).execute(
+      async () => {
+        try {
+          const parts = streamStructuredCompletion({
+            descriptor,
+            connection: resolveProviderConnection(descriptor),
+            modelName: judge.modelName,
+            prompt: attemptPrompt,
+            temperature: judge.temperature,
+            topP: judge.topP,
+            maxTokens: judge.maxTokens ?? 1024,
+            signal: deadline.signal,
+            schema,
+          })
+          for await (const part of parts) {
+            if (part.type === 'result') {
+              return part.result
+            }
+            const now = Date.now()
+            chunks.push({ delayMs: now - lastChunkAt, text: part.text })
+            lastChunkAt = now
+            text += part.text
+            await reportReasoning(text)
+          }
+          throw createAPIError('STREAM_ERROR', 'The judge stream ended without a verdict', { retryable: true })
+        } catch (error) {
+          // The abort we triggered surfaces as a transport error
+          if (deadline.expired) {
+            throw createAPIError(
+              'TIMEOUT_ERROR',
+              `${judge.modelName} did not return a verdict within ${API_TIMEOUTS.judge / 1000}s`,
+              { retryable: true }
+            )
+          }
+          throw error
+        } finally {
+          deadline.clear()
+        }
+      },
+      () => !signal.aborted
+    )
+    usages.push(completion.usage)
+
+    if (completion.isValid) {
+      const usage = sumUsage(usages)
+      // Only the attempt that passed validation is recorded, so a replay
+      // never needs repairs
+      if (cassetteMode === 'record') {
+        await saveCassette(cassetteKey, chunks, { usage }).catch(error => {
+          console.error('Failed to record judge cassette:', error)
+        })
+      }
+      return { output: completion.object, usage }
+    }
+
+    console.warn(`${judge.modelName} verdict failed validation (attempt ${attempt}):\n${completion.error}`)
+    if (attempt > JUDGE_CALL_LIMITS.repairAttempts) {
+      throw createAPIError(
+        'INVALID_RESPONSE_FORMAT',
+        `Judge returned an invalid verdict ${attempt} times`,
+        { retryable: true, details: { issues: completion.error } }
+      )
+    }
+    attemptPrompt = getJudgeRepairPrompt(prompt, completion.text, completion.error)
+  }
+}
+
+interface JudgeRunOptions {
+  prompt: string
+  slotIds: SlotId[] // the keys the prompt's pitches are listed under
+  criteria: JudgingCriteria
+  cassetteMode: CassetteMode
+  signal: AbortSignal
+  onProgress?: (event: JudgeProgressEvent) => void
+}
+
+// Get one judge's scorecard, so the rest of a panel can carry on if it fails
+async function runJudge(
+  judge: ModelConfig,
+  { prompt, slotIds, criteria, ...options }: JudgeRunOptions
+): Promise<JudgePanelVerdict> {
+  const { output: judgeResult, usage } = await requestJudgeOutput(judge, {
+    prompt,
+    schema: createJudgeOutputSchema(slotIds),
+    ...options,
+  })
+
+  // Clamp each criterion score, then weight them into the overall score
+  const reasoning = judgeResult.reasoning
+  const scores: Record<SlotId, JudgeScore> = Object.fromEntries(
+    slotIds.map((slot): [SlotId, JudgeScore] => {
+      const breakdown = normalizeScores(judgeResult.scores[slot])
+      return [
+        slot,
+        {
+          slot,
+          score: computeOverallScore(breakdown, criteria),
+          breakdown,
+          reasoning,
+        },
+      ]
+    })
+  )
+
+  // The judge's pick is kept as its vote, and flagged when its own weighted
+  // scores put another pitch ahead
+  const topScore = Math.max(...slotIds.map(slot => scores[slot].score))
+  const winnerMismatch = scores[judgeResult.winner].score !== topScore
+  if (winnerMismatch) {
+    console.warn(`${judge.modelName} picked ${judgeResult.winner} but scored it ${scores[judgeResult.winner].score}, below its top score of ${topScore}`)
+  }
+
+  return {
+    judge: judge.modelName,
+    scores,
+    winner: judgeResult.winner,
+    winnerMismatch,
+    reasoning,
+    usage: createUsageReport(judge.modelName, usage),
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Pairwise Judge
+// -----------------------------------------------------------------------------
+
+interface PairwiseRunOptions extends Omit<JudgeParams, 'pitches'> {
+  pitches: PitchContent // keyed as the prompts list them
+  ranking: PairwiseRanking
+  cassetteMode: CassetteMode
+  signal: AbortSignal
+}
+
+// Have one judge decide every head-to-head matchup and rank the pitches from
+// its outcomes alone. One failed matchup fails the judge, since its ranking
+// would have a hole in it.
+async function runPairwiseJudge(
+  judge: ModelConfig,
+  { pitches, truncated = [], ranking, cassetteMode, signal, ...params }: PairwiseRunOptions
+): Promise<{ verdict: JudgePanelVerdict; comparisons: PairwiseComparison[] }> {
+  const slotIds = Object.keys(pitches)
+  const pairs = listPairs(slotIds)
+  const comparisons: PairwiseComparison[] = new Array(pairs.length)
+  const usages: TokenUsage[] = []
+  let failed = false
+
+  let next = 0
+  const worker = async () => {
+    while (next < pairs.length && !failed) {
+      const index = next++
+      const shown = pairs[index]
+      try {
+        const { output, usage } = await requestJudgeOutput(judge, {
+          prompt: getPairwiseJudgePrompt({
+            ...params,
+            pitches: Object.fromEntries(shown.map(slotId => [slotId, pitches[slotId]])),
+            truncated: truncated.filter(slotId => shown.includes(slotId)),
+          }),
+          schema: createPairwiseOutputSchema(shown),
+          cassetteMode,
+          signal,
+        })
+        usages.push(usage)
+        comparisons[index] = {
+          judge: judge.modelName,
+          shown,
+          winner: output.winner,
+          reasoning: output.reasoning,
+        }
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(JUDGE_CALL_LIMITS.pairwiseConcurrency, pairs.length) }, worker))
+
+  const { scores, order } = rankPairwise(slotIds, comparisons, ranking)
+  return {
+    verdict: {
+      judge: judge.modelName,
+      scores: Object.fromEntries(
+        slotIds.map((slot): [SlotId, JudgeScore] => [
+          slot,
+          { slot, score: scores[slot], reasoning: describeMatchups(comparisons, slot) },
+        ])
+      ),
+      winner: order[0],
+      reasoning: describeMatchups(comparisons, order[0]),
+      usage: createUsageReport(judge.modelName, sumUsage(usages)),
+    },
+    comparisons,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Tie-Break
+// -----------------------------------------------------------------------------
+
+interface TieBreakOptions extends Omit<JudgeParams, 'pitches' | 'blind'> {
+  pitches: PitchContent // keyed as the prompts list them
+  rule: TieBreakRule
+  judge: ModelConfig // the run-off judge
+  decision: PanelDecision
+  blind?: BlindJudging // how the panel saw the pitches
+  cassetteMode: CassetteMode
+  signal: AbortSignal
+}
+
+// Settle a tie between decision's leaders with the rule. A run-off that
+// fails leaves the tie standing rather than failing a verdict that is
+// otherwise complete.
+async function breakTie({
+  rule,
+  judge,
+  decision,
+  pitches,
+  truncated = [],
+  blind,
+  cassetteMode,
+  signal,
+  ...params
+}: TieBreakOptions): Promise<{ tie: JudgeTie; usage?: TokenUsage }> {
+  const tied = decision.leaders
+
+  if (rule === 'declared') {
+    return { tie: { tied, rule, winners: breakTieByVotes(tied, decision.winnerVotes) } }
+  }
+  if (rule === 'breakdown') {
+    return { tie: { tied, rule, winners: breakTieByBreakdown(tied, decision.scores, params.criteria ?? DEFAULT_JUDGING_CRITERIA) } }
+  }
+
+  // The run-off judge sees the tied pitches as the panel did
+  const keys = tied.map(slot => (blind ? blind.labels[slot] : slot))
+  try {
+    const { output, usage } = await requestJudgeOutput(judge, {
+      prompt: getRunoffJudgePrompt({
+        ...params,
+        pitches: Object.fromEntries(keys.map(key => [key, pitches[key]])),
+        truncated: truncated.filter(key => keys.includes(key)),
+        blind: !!blind,
+      }),
+      schema: createRunoffOutputSchema(keys),
+      cassetteMode,
+      signal,
+    })
+    return {
+      tie: {
+        tied,
+        rule,
+        winners: [tied[keys.indexOf(output.winner)]],
+        runoff: { judge: judge.modelName, reasoning: output.reasoning },
+      },
+      usage,
+    }
+  } catch (error) {
+    if (signal.aborted) throw error
+    console.error(`Run-off by ${judge.modelName} failed, the tie stands:`, error)
+    return { tie: { tied, rule, winners: tied } }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Panel
+// -----------------------------------------------------------------------------
+
+export interface JudgeBattleOptions {
+  cassetteMode: CassetteMode
+  signal: AbortSignal
+  order?: SlotId[] // order to present the pitches in; blind mode lets the seed decide otherwise
+  onProgress?: (event: JudgeProgressEvent) => void // the judges' reasoning as it is written
+}
+
+export interface JudgeBattleResult {
+  scores: Record<SlotId, JudgeScore>
+  winner: SlotId
+  overallReasoning: string
+  criteria: JudgingCriteria
+  panel: JudgePanelResult
+  tie?: JudgeTie
+  blind?: BlindJudging
+  mode: JudgingMode
+  pairwise?: PairwiseResult
+  usage: UsageReport // summed over the panel and any run-off
+}
+
+// Judge a validated request with its whole panel. Only a panel where no judge
+// returned a verdict fails, with the first judge's error.
+export async function judgeBattle(
+  request: JudgeRequest,
+  { cassetteMode, signal, order, onProgress }: JudgeBattleOptions
+): Promise<JudgeBattleResult> {
+  const panel = request.panel ?? DEFAULT_JUDGE_PANEL
+  const judges = getPanelJudges(request)
+  const slotIds: SlotId[] = order ?? Object.keys(request.pitches)
+  const pitches: PitchContent = Object.fromEntries(
+    slotIds.map(slotId => [slotId, request.pitches[slotId].trim()])
+  )
+  const criteria = request.criteria ?? DEFAULT_JUDGING_CRITERIA
+  const concept = request.concept.trim()
+  const userGroup = request.userGroup.trim()
+
+  // Blind judges see lettered, shuffled and redacted pitches
+  const blind = !request.blind
+    ? undefined
+    : order
+      ? assignBlindLabels(order)
+      : createBlindAssignment(slotIds, request.blindSeed ?? createBlindSeed())
+  const promptPitches = blind ? anonymizePitches(pitches, blind, [concept, userGroup]) : pitches
+  const promptTruncated = blind ? request.truncated?.map(slotId => blind.labels[slotId]) : request.truncated
+  const mode = request.mode ?? 'scorecard'
+  const ranking = request.ranking ?? 'bradley-terry'
+  const tieBreak = request.tieBreak ?? 'declared'
+
+  onProgress?.({ type: 'start', judges: panel.judges, blind, timestamp: new Date().toISOString() })
+
+  // Every judge decides independently. Head-to-head reasoning is not
+  // streamed: a judge's matchups run side by side.
+  const outcomes = await Promise.allSettled(
+    judges.map(async judge => {
+      if (mode === 'pairwise') {
+        const { verdict, comparisons } = await runPairwiseJudge(judge, {
+          concept,
+          userGroup,
+          pitches: promptPitches,
+          truncated: promptTruncated,
+          criteria,
+          blind: !!blind,
+          ranking,
+          cassetteMode,
+          signal,
+        })
+        return blind
+          ? { verdict: unblindVerdict(verdict, blind), comparisons: comparisons.map(comparison => unblindComparison(comparison, blind)) }
+          : { verdict, comparisons }
+      }
+
+      const verdict = await runJudge(judge, {
+        prompt: getJudgePrompt({ concept, userGroup, pitches: promptPitches, truncated: promptTruncated, criteria, blind: !!blind }),
+        slotIds: Object.keys(promptPitches),
+        criteria,
+        cassetteMode,
+        signal,
+        onProgress,
+      })
+      return { verdict: blind ? unblindVerdict(verdict, blind) : verdict, comparisons: [] }
+    })
+  )
+
+  const verdicts: JudgePanelVerdict[] = []
+  const failed: JudgePanelFailure[] = []
+  const comparisons: PairwiseComparison[] = []
+  outcomes.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      verdicts.push(outcome.value.verdict)
+      comparisons.push(...outcome.value.comparisons)
+      return
+    }
+    console.error(`Judge ${judges[index].modelName} failed:`, outcome.reason)
+    failed.push({
+      judge: judges[index].modelName,
+      code: isAPIError(outcome.reason) ? outcome.reason.code : 'JUDGE_ERROR',
+      message: isAPIError(outcome.reason) ? outcome.reason.message : 'The judge could not score the pitches',
+    })
+  })
+
+  if (verdicts.length === 0) {
+    throw (outcomes[0] as PromiseRejectedResult).reason
+  }
+
+  let pairwise: PairwiseResult | undefined
+  const decide = (winner?: SlotId): PanelDecision => {
+    if (mode === 'pairwise') {
+      const { standings, ...pooled } = aggregatePairwise(verdicts, comparisons, slotIds, ranking, winner)
+      pairwise = { ranking, comparisons, standings }
+      return pooled
+    }
+    return aggregateVerdicts(verdicts, slotIds, panel.aggregation, criteria, winner)
+  }
+  let decision = decide()
+
+  // The run-off goes to the first judge that gave a verdict
+  let tie: JudgeTie | undefined
+  let runoffUsage: UsageReport | undefined
+  if (decision.leaders.length > 1) {
+    const runoffJudge = getJudgeModel(verdicts[0].judge)!
+    const settled = await breakTie({
+      rule: tieBreak,
+      judge: runoffJudge,
+      decision,
+      concept,
+      userGroup,
+      pitches: promptPitches,
+      truncated: promptTruncated,
+      criteria,
+      blind,
+      cassetteMode,
+      signal,
+    })
+    tie = settled.tie
+    if (settled.usage) {
+      runoffUsage = createUsageReport(runoffJudge.modelName, settled.usage)
+    }
+    decision = decide(tie.winners[0])
+  }
+
+  return {
+    scores: decision.scores,
+    winner: decision.winner,
+    overallReasoning: decision.reasoning,
+    criteria,
+    panel: {
+      aggregation: panel.aggregation,
+      verdicts,
+      failed,
+      winnerVotes: decision.winnerVotes,
+      agreement: decision.agreement,
+    },
+    tie,
+    blind,
+    mode,
+    pairwise,
+    usage: sumUsage([...verdicts.map(verdict => verdict.usage), runoffUsage]),
+  }
+}
@@ -0,0 +1,125 @@
+// =============================================================================
+// AI STARTUP BATTLE - PAIRWISE RANKING
+// =============================================================================
+//
+// Turns head-to-head outcomes into standings and 1-10 scores. Bradley-Terry
+// fits a strength per pitch so that P(i beats j) = s_i / (s_i + s_j);
+// Copeland counts the matchups each pitch won. Client-safe, so the verdict
+// card can use the same helpers.
+
+import { PairwiseComparison, PairwiseRanking, PairwiseStanding, SlotId } from './types'
+
+export const PAIRWISE_RANKINGS: PairwiseRanking[] = ['bradley-terry', 'copeland']
+
+// A virtual half win each way in every matchup keeps an unbeaten pitch's
+// strength finite
+const BT_PRIOR_WINS = 0.5
+const BT_MAX_ITERATIONS = 500
+const BT_TOLERANCE = 1e-9
+
+export interface PairwiseRankingResult {
+  standings: Record<SlotId, PairwiseStanding>
+  scores: Record<SlotId, number> // 1-10, one decimal
+  order: SlotId[] // best first
+}
+
+// Every pair once. Which pitch is shown first alternates from pair to pair,
+// so no pitch is always the one the judge reads first.
+export function listPairs(slotIds: SlotId[]): Array<[SlotId, SlotId]> {
+  const pairs: Array<[SlotId, SlotId]> = []
+  slotIds.forEach((first, index) => {
+    for (const second of slotIds.slice(index + 1)) {
+      pairs.push(pairs.length % 2 === 0 ? [first, second] : [second, first])
+    }
+  })
+  return pairs
+}
+
+// beats[i][j]: how often slotIds[i] beat slotIds[j]
+function countWins(slotIds: SlotId[], comparisons: PairwiseComparison[]): number[][] {
+  const beats = slotIds.map(() => slotIds.map(() => 0))
+  for (const { shown, winner } of comparisons) {
+    const loser = shown[0] === winner ? shown[1] : shown[0]
+    beats[slotIds.indexOf(winner)][slotIds.indexOf(loser)]++
+  }
+  return beats
+}
+
+// Minorization-maximization (Hunter, 2004); strengths are normalized to sum to 1
+function fitBradleyTerry(beats: number[][]): number[] {
+  const n = beats.length
+  let strengths = beats.map(() => 1 / n)
+
+  for (let iteration = 0; iteration < BT_MAX_ITERATIONS; iteration++) {
+    const next = strengths.map((strength, i) => {
+      let wins = 0
+      let denominator = 0
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue
+        wins += beats[i][j] + BT_PRIOR_WINS
+        denominator += (beats[i][j] + beats[j][i] + 2 * BT_PRIOR_WINS) / (strength + strengths[j])
+      }
+      return wins / denominator
+    })
+
+    const total = next.reduce((sum, strength) => sum + strength, 0)
+    const normalized = next.map(strength => strength / total)
+    const change = Math.max(...normalized.map((strength, i) => Math.abs(strength - strengths[i])))
+    strengths = normalized
+    if (change < BT_TOLERANCE) break
+  }
+
+  return strengths
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places
+
+export function rankPairwise(
+  slotIds: SlotId[],
+  comparisons: PairwiseComparison[],
+  ranking: PairwiseRanking
+): PairwiseRankingResult {
+  const n = slotIds.length
+  const beats = countWins(slotIds, comparisons)
+  const strengths = fitBradleyTerry(beats)
+
+  const standings: Record<SlotId, PairwiseStanding> = {}
+  const rates: Record<SlotId, number> = {}
+  slotIds.forEach((slot, i) => {
+    let copeland = 0
+    let expectedWins = 0
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue
+      copeland += beats[i][j] > beats[j][i] ? 1 : beats[i][j] === beats[j][i] ? 0.5 : 0
+      expectedWins += strengths[i] / (strengths[i] + strengths[j])
+    }
+
+    standings[slot] = {
+      wins: beats[i].reduce((sum, count) => sum + count, 0),
+      losses: beats.reduce((sum, row) => sum + row[i], 0),
+      copeland,
+      strength: round(strengths[i], 4),
+    }
+    rates[slot] = ranking === 'copeland' ? copeland / (n - 1) : expectedWins / (n - 1)
+  })
+
+  const scores: Record<SlotId, number> = Object.fromEntries(
+    slotIds.map(slot => [slot, round(1 + 9 * rates[slot], 1)])
+  )
+
+  // Ties on score fall to the other method, then to the order given
+  const tieBreak = (slot: SlotId) => (ranking === 'copeland' ? standings[slot].strength : standings[slot].copeland)
+  const order = [...slotIds].sort(
+    (a, b) => scores[b] - scores[a] || tieBreak(b) - tieBreak(a) || slotIds.indexOf(a) - slotIds.indexOf(b)
+  )
+
+  return { standings, scores, order }
+}
+
+// A pitch's matchups in the order they were judged, as its reasoning
+export function describeMatchups(comparisons: PairwiseComparison[], slot: SlotId): string {
+  return comparisons
+    .filter(comparison => comparison.shown.includes(slot))
+    .map(comparison => comparison.reasoning)
+    .join('\n\n')
+}
@@ -0,0 +1,113 @@
+// =============================================================================
+// AI STARTUP BATTLE - RESUMABLE PITCH GENERATIONS (SERVER ONLY)
+// =============================================================================
+//
+// Every streamed pitch is a generation: its id is the `start` event's id, and
+// it keeps a transcript of every wire event sent so far. The provider call
+// feeds the transcript rather than the HTTP response, so a client whose
+// connection drops can reattach with
+// GET /api/pitch/[provider]?generationId=<id>&offset=<events received> and
+// get the rest of the same pitch.
+//
+// A generation nobody is attached to is cancelled after RESUME_GRACE_MS.
+// Finished ones are kept for RETENTION_MS. Generations live in memory, so a
+// resume must reach the server instance that started the pitch.
+
+import { AIProvider, PitchWireEvent } from './types'
+import { encodePitchEvent } from './pitch-stream'
+
+const RESUME_GRACE_MS = 10_000
+const RETENTION_MS = 2 * 60_000
+
+const generations = new Map<string, PitchGeneration>()
+
+export class PitchGeneration {
+  readonly events: PitchWireEvent[] = []
+  private done = false
+  private subscribers = 0
+  private waiters: Array<() => void> = []
+  private graceTimer?: ReturnType<typeof setTimeout>
+
+  constructor(
+    readonly id: string,
+    readonly provider: AIProvider,
+    private onAbandoned: () => void
+  ) {}
+
+  push(event: PitchWireEvent) {
+    this.events.push(event)
+    this.wake()
+  }
+
+  end() {
+    this.done = true
+    clearTimeout(this.graceTimer)
+    this.wake()
+    setTimeout(() => generations.delete(this.id), RETENTION_MS)
+  }
+
+  // Encoded transcript from `offset` on, followed by live events until the
+  // generation ends. Cancelling the stream detaches from the generation.
+  createStream(offset: number): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    let cursor = offset
+    let attached = true
+    const detach = () => {
+      if (attached) {
+        attached = false
+        this.detach()
+      }
+    }
+
+    this.attach()
+    return new ReadableStream({
+      pull: async controller => {
+        while (cursor >= this.events.length && !this.done) {
+          await new Promise<void>(resolve => this.waiters.push(resolve))
+        }
+
+        if (cursor < this.events.length) {
+          controller.enqueue(encoder.encode(this.events.slice(cursor).map(encodePitchEvent).join('')))
+          cursor = this.events.length
+        } else {
+          detach()
+          controller.close()
+        }
+      },
+      cancel: detach,
+    })
+  }
+
+  private wake() {
+    const waiters = this.waiters
+    this.waiters = []
+    waiters.forEach(resolve => resolve())
+  }
+
+  private attach() {
+    this.subscribers++
+    clearTimeout(this.graceTimer)
+  }
+
+  private detach() {
+    this.subscribers--
+    if (this.subscribers > 0 || this.done) return
+
+    this.graceTimer = setTimeout(() => {
+      generations.delete(this.id)
+      this.onAbandoned()
+    }, RESUME_GRACE_MS)
+  }
+}
+
+// onAbandoned runs when every client has been gone for the grace period,
+// and should stop the provider call
+export function createPitchGeneration(id: string, provider: AIProvider, onAbandoned: () => void): PitchGeneration {
+  const generation = new PitchGeneration(id, provider, onAbandoned)
+  generations.set(id, generation)
+  return generation
+}
+
+export function getPitchGeneration(id: string): PitchGeneration | undefined {
+  return generations.get(id)
+}
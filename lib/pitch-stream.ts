@@ -0,0 +1,80 @@
+// =============================================================================
+// AI STARTUP BATTLE - PITCH AND JUDGE STREAM PROTOCOL
+// =============================================================================
+//
+// Shared by the pitch and judge routes (encoding) and the browser (decoding).
+// Each event is one server-sent-events frame: `data: <event JSON>\n\n`, with
+// PitchWireEvent or JudgeWireEvent as the event.
+
+import { JudgeWireEvent, PitchWireEvent } from './types'
+
+export const PITCH_STREAM_CONTENT_TYPE = 'text/event-stream; charset=utf-8'
+export const JUDGE_STREAM_CONTENT_TYPE = PITCH_STREAM_CONTENT_TYPE
+
+function encodeEvent(event: PitchWireEvent | JudgeWireEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`
+}
+
+export const encodePitchEvent: (event: PitchWireEvent) => string = encodeEvent
+export const encodeJudgeEvent: (event: JudgeWireEvent) => string = encodeEvent
+
+function parseFrame<T>(frame: string): T | null {
+  const data = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n')
+
+  if (!data) {
+    return null
+  }
+
+  try {
+    return JSON.parse(data) as T
+  } catch {
+    console.warn('Failed to parse stream frame:', data)
+    return null
+  }
+}
+
+// Decode a response body into events, buffering frames that are split across
+// network chunks
+async function* readEvents<T>(body: ReadableStream<Uint8Array>): AsyncIterable<T> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const event = parseFrame<T>(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (event) {
+          yield event
+        }
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+
+    const event = parseFrame<T>(buffer + decoder.decode())
+    if (event) {
+      yield event
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export function readPitchEvents(body: ReadableStream<Uint8Array>): AsyncIterable<PitchWireEvent> {
+  return readEvents<PitchWireEvent>(body)
+}
+
+export function readJudgeEvents(body: ReadableStream<Uint8Array>): AsyncIterable<JudgeWireEvent> {
+  return readEvents<JudgeWireEvent>(body)
+}
@@ -0,0 +1,661 @@
+// =============================================================================
+// AI STARTUP BATTLE - PITCH TRANSPORTS (SERVER ONLY)
+// =============================================================================
+
+import Groq from 'groq-sdk'
+import { generateText, streamObject, streamText, LanguageModel } from 'ai'
+import { z } from 'zod'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import {
+  APIError,
+  GenerationParams,
+  isAPIError,
+  PitchFinishReason,
+  PitchWireEvent,
+  ProviderConnection,
+  ProviderDescriptor,
+  ProviderTransport,
+  TokenUsage
+} from './types'
+import { createAPIError } from './error-handling'
+import { PITCH_STREAM_CONTENT_TYPE } from './pitch-stream'
+import { createUsageReport } from './pricing'
+import { createPitchGeneration, PitchGeneration } from './pitch-generations'
+
+export interface PitchStreamOptions {
+  descriptor: ProviderDescriptor
+  connection: ProviderConnection
+  params: GenerationParams
+  prompt: string
+  signal?: AbortSignal // aborting stops the upstream generation
+}
+
+// What a transport yields; createPitchResponse turns these into wire events
+export type PitchStreamPart =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'finish'; finishReason: PitchFinishReason }
+
+type PitchTransportHandler = (options: PitchStreamOptions) => Promise<AsyncIterable<PitchStreamPart>>
+
+function toFinishReason(reason: string | null | undefined): PitchFinishReason {
+  switch (reason) {
+    case 'stop':
+    case 'length':
+    case 'content-filter':
+    case 'error':
+      return reason
+    default:
+      return 'other'
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Groq SDK
+// -----------------------------------------------------------------------------
+
+async function streamGroqPitch({ connection, params, prompt, signal }: PitchStreamOptions): Promise<AsyncIterable<PitchStreamPart>> {
+  const groq = new Groq({ apiKey: connection.apiKey, baseURL: connection.baseURL })
+
+  const stream = await groq.chat.completions.create({
+    model: params.modelName,
+    messages: [
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    top_p: params.topP,
+    stream: true,
+  }, { signal })
+
+  return (async function* (): AsyncIterable<PitchStreamPart> {
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0]
+      if (choice?.delta?.content) {
+        yield { type: 'text', text: choice.delta.content }
+      }
+
+      if (chunk.x_groq?.error) {
+        throw new Error(chunk.x_groq.error)
+      }
+
+      // Usage arrives with the final chunk
+      const usage = chunk.x_groq?.usage
+      if (usage) {
+        yield {
+          type: 'usage',
+          usage: {
+            inputTokens: usage.prompt_tokens,
+            outputTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens,
+          },
+        }
+      }
+
+      if (choice?.finish_reason) {
+        yield { type: 'finish', finishReason: toFinishReason(choice.finish_reason) }
+      }
+    }
+  })()
+}
+
+// -----------------------------------------------------------------------------
+// Vercel AI SDK
+// -----------------------------------------------------------------------------
+
+async function* streamAISDKPitch(model: LanguageModel, { params, prompt, signal }: PitchStreamOptions): AsyncIterable<PitchStreamPart> {
+  const result = streamText({
+    model,
+    prompt,
+    temperature: params.temperature,
+    maxOutputTokens: params.maxTokens,
+    topP: params.topP,
+    abortSignal: signal,
+  })
+
+  for await (const part of result.fullStream) {
+    switch (part.type) {
+      case 'text-delta':
+        yield { type: 'text', text: part.text }
+        break
+      case 'error':
+        throw part.error
+      case 'finish':
+        yield {
+          type: 'usage',
+          usage: {
+            inputTokens: part.totalUsage.inputTokens,
+            outputTokens: part.totalUsage.outputTokens,
+            totalTokens: part.totalUsage.totalTokens,
+          },
+        }
+        yield { type: 'finish', finishReason: toFinishReason(part.finishReason) }
+        break
+    }
+  }
+}
+
+type ModelFactory = (descriptor: ProviderDescriptor, connection: ProviderConnection, modelName: string) => LanguageModel
+
+const openAIModel: ModelFactory = (_descriptor, { apiKey, baseURL }, modelName) =>
+  createOpenAI({ apiKey, baseURL })(modelName)
+
+const anthropicModel: ModelFactory = (_descriptor, { apiKey, baseURL }, modelName) =>
+  createAnthropic({ apiKey, baseURL })(modelName)
+
+// Local and self-hosted servers implement chat completions but not the
+// Responses API that the default OpenAI model factory targets
+const openAICompatibleModel: ModelFactory = (descriptor, { apiKey, baseURL }, modelName) =>
+  createOpenAI({
+    name: descriptor.provider,
+    apiKey: apiKey ?? 'not-needed',
+    baseURL,
+  }).chat(modelName)
+
+function streamWith(createModel: ModelFactory): PitchTransportHandler {
+  return async options =>
+    streamAISDKPitch(createModel(options.descriptor, options.connection, options.params.modelName), options)
+}
+
+const TRANSPORTS: Record<ProviderTransport, PitchTransportHandler> = {
+  groq: streamGroqPitch,
+  openai: streamWith(openAIModel),
+  anthropic: streamWith(anthropicModel),
+  'openai-compatible': streamWith(openAICompatibleModel),
+}
+
+export function streamPitchText(options: PitchStreamOptions): Promise<AsyncIterable<PitchStreamPart>> {
+  return TRANSPORTS[options.descriptor.transport](options)
+}
+
+// Start a transport and wait for its first part. The AI SDK reports a bad
+// model or an overloaded provider inside the stream rather than when the call
+// starts; pulling the first part surfaces those failures here, while a
+// fallback model can still take over.
+export async function openPitchStream(options: PitchStreamOptions): Promise<AsyncIterable<PitchStreamPart>> {
+  const iterator = (await streamPitchText(options))[Symbol.asyncIterator]()
+  const first = await iterator.next()
+
+  return (async function* (): AsyncIterable<PitchStreamPart> {
+    try {
+      let next = first
+      while (!next.done) {
+        yield next.value
+        next = await iterator.next()
+      }
+    } finally {
+      await iterator.return?.()
+    }
+  })()
+}
+
+// -----------------------------------------------------------------------------
+// Completions
+// -----------------------------------------------------------------------------
+
+// One non-streamed completion, for health probes
+export interface CompletionOptions {
+  descriptor: ProviderDescriptor
+  connection: ProviderConnection
+  modelName: string
+  prompt: string
+  temperature?: number
+  topP?: number
+  maxTokens: number
+  signal?: AbortSignal
+}
+
+export interface Completion {
+  text: string
+  modelId: string // model the provider reports answering with
+  usage: TokenUsage
+}
+
+type CompletionHandler = (options: CompletionOptions) => Promise<Completion>
+
+async function completeWithGroq({ connection, modelName, prompt, temperature, topP, maxTokens, signal }: CompletionOptions): Promise<Completion> {
+  const groq = new Groq({ apiKey: connection.apiKey, baseURL: connection.baseURL })
+  const completion = await groq.chat.completions.create({
+    model: modelName,
+    messages: [{ role: 'user', content: prompt }],
+    temperature,
+    top_p: topP,
+    max_tokens: maxTokens,
+  }, { signal })
+
+  return {
+    text: completion.choices[0]?.message?.content ?? '',
+    modelId: completion.model,
+    usage: {
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens,
+      totalTokens: completion.usage?.total_tokens,
+    },
+  }
+}
+
+function completeWith(createModel: ModelFactory): CompletionHandler {
+  return async ({ descriptor, connection, modelName, prompt, temperature, topP, maxTokens, signal }) => {
+    const result = await generateText({
+      model: createModel(descriptor, connection, modelName),
+      prompt,
+      temperature,
+      topP,
+      maxOutputTokens: maxTokens,
+      abortSignal: signal,
+    })
+
+    return {
+      text: result.text,
+      modelId: result.response.modelId,
+      usage: {
+        inputTokens: result.usage?.inputTokens,
+        outputTokens: result.usage?.outputTokens,
+        totalTokens: result.usage?.totalTokens,
+      },
+    }
+  }
+}
+
+const COMPLETIONS: Record<ProviderTransport, CompletionHandler> = {
+  groq: completeWithGroq,
+  openai: completeWith(openAIModel),
+  anthropic: completeWith(anthropicModel),
+  'openai-compatible': completeWith(openAICompatibleModel),
+}
+
+export function generateCompletion(options: CompletionOptions): Promise<Completion> {
+  return COMPLETIONS[options.descriptor.transport](options)
+}
+
+// -----------------------------------------------------------------------------
+// Structured Completions
+// -----------------------------------------------------------------------------
+
+// A completion that must parse as JSON and match schema
+export interface StructuredCompletionOptions<T> extends CompletionOptions {
+  schema: z.ZodType<T>
+}
+
+// Output that failed the schema is returned rather than thrown, with the
+// problems found, so the caller can ask the model to repair it
+export type StructuredCompletion<T> =
+  | { isValid: true; object: T; modelId: string; usage: TokenUsage }
+  | { isValid: false; text: string; error: string; usage: TokenUsage }
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : 'output'}: ${issue.message}`)
+    .join('\n')
+}
+
+// Parse and validate raw model output (or a recorded one) against schema
+export function parseStructuredText<T>(
+  schema: z.ZodType<T>,
+  text: string
+): { isValid: true; object: T } | { isValid: false; error: string } {
+  let json: unknown
+  try {
+    json = JSON.parse(text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, ''))
+  } catch {
+    return { isValid: false, error: '- output: not valid JSON' }
+  }
+
+  const parsed = schema.safeParse(json)
+  return parsed.success
+    ? { isValid: true, object: parsed.data }
+    : { isValid: false, error: describeIssues(parsed.error) }
+}
+
+// A structured completion streams its raw JSON text as it is generated, then
+// ends with the validated result
+export type StructuredStreamPart<T> =
+  | { type: 'text'; text: string }
+  | { type: 'result'; result: StructuredCompletion<T> }
+
+type StructuredStreamHandler = <T>(options: StructuredCompletionOptions<T>) => AsyncIterable<StructuredStreamPart<T>>
+
+function toStructuredResult<T>(
+  schema: z.ZodType<T>,
+  text: string,
+  modelId: string,
+  usage: TokenUsage
+): StructuredCompletion<T> {
+  const result = parseStructuredText(schema, text)
+  return result.isValid ? { ...result, modelId, usage } : { ...result, text, usage }
+}
+
+// Groq has JSON mode but no schema enforcement, so the schema is checked here
+async function* streamObjectWithGroq<T>({
+  connection,
+  modelName,
+  prompt,
+  temperature,
+  topP,
+  maxTokens,
+  signal,
+  schema,
+}: StructuredCompletionOptions<T>): AsyncIterable<StructuredStreamPart<T>> {
+  const groq = new Groq({ apiKey: connection.apiKey, baseURL: connection.baseURL })
+  const stream = await groq.chat.completions.create({
+    model: modelName,
+    messages: [{ role: 'user', content: prompt }],
+    temperature,
+    top_p: topP,
+    max_tokens: maxTokens,
+    response_format: { type: 'json_object' },
+    stream: true,
+  }, { signal })
+
+  let text = ''
+  let modelId = modelName
+  let usage: TokenUsage = {}
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content
+    if (content) {
+      text += content
+      yield { type: 'text', text: content }
+    }
+
+    if (chunk.x_groq?.error) {
+      throw new Error(chunk.x_groq.error)
+    }
+
+    modelId = chunk.model ?? modelId
+    // Usage arrives with the final chunk
+    if (chunk.x_groq?.usage) {
+      usage = {
+        inputTokens: chunk.x_groq.usage.prompt_tokens,
+        outputTokens: chunk.x_groq.usage.completion_tokens,
+        totalTokens: chunk.x_groq.usage.total_tokens,
+      }
+    }
+  }
+
+  yield { type: 'result', result: toStructuredResult(schema, text, modelId, usage) }
+}
+
+// The AI SDK picks the provider's native structured output (JSON schema or a
+// forced tool call). Its own validation only rejects result.object, so the
+// text is checked here instead, the same way as Groq's.
+function streamObjectWith(createModel: ModelFactory): StructuredStreamHandler {
+  return async function* <T>({
+    descriptor,
+    connection,
+    modelName,
+    prompt,
+    temperature,
+    topP,
+    maxTokens,
+    signal,
+    schema,
+  }: StructuredCompletionOptions<T>): AsyncIterable<StructuredStreamPart<T>> {
+    const result = streamObject({
+      model: createModel(descriptor, connection, modelName),
+      schema,
+      prompt,
+      temperature,
+      topP,
+      maxOutputTokens: maxTokens,
+      abortSignal: signal,
+      onError: () => {}, // errors are thrown from the stream below
+    })
+    result.object.catch(() => {})
+
+    let text = ''
+    let modelId = modelName
+    let usage: TokenUsage = {}
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case 'text-delta':
+          text += part.textDelta
+          yield { type: 'text', text: part.textDelta }
+          break
+        case 'error':
+          throw part.error
+        case 'finish':
+          modelId = part.response.modelId
+          usage = {
+            inputTokens: part.usage.inputTokens,
+            outputTokens: part.usage.outputTokens,
+            totalTokens: part.usage.totalTokens,
+          }
+          break
+      }
+    }
+
+    yield { type: 'result', result: toStructuredResult(schema, text, modelId, usage) }
+  }
+}
+
+const STRUCTURED_STREAMS: Record<ProviderTransport, StructuredStreamHandler> = {
+  groq: streamObjectWithGroq,
+  openai: streamObjectWith(openAIModel),
+  anthropic: streamObjectWith(anthropicModel),
+  'openai-compatible': streamObjectWith(openAICompatibleModel),
+}
+
+export function streamStructuredCompletion<T>(options: StructuredCompletionOptions<T>): AsyncIterable<StructuredStreamPart<T>> {
+  return STRUCTURED_STREAMS[options.descriptor.transport](options)
+}
+
+// -----------------------------------------------------------------------------
+// Probes
+// -----------------------------------------------------------------------------
+
+export interface ModelProbeOptions {
+  descriptor: ProviderDescriptor
+  connection: ProviderConnection
+  modelName: string
+  signal?: AbortSignal
+}
+
+const PROBE_PROMPT = 'Reply with OK.'
+const PROBE_MAX_TOKENS = 16 // the smallest budget every provider accepts
+
+// Send a minimal completion to a model and return the model id the provider
+// reports answering with, which may differ from an alias that was requested
+export async function probeModel(options: ModelProbeOptions): Promise<string> {
+  const { modelId } = await generateCompletion({ ...options, prompt: PROBE_PROMPT, maxTokens: PROBE_MAX_TOKENS })
+  return modelId
+}
+
+// -----------------------------------------------------------------------------
+// Deadlines
+// -----------------------------------------------------------------------------
+
+export interface PitchDeadlineOptions {
+  firstTokenMs: number
+  totalMs: number
+}
+
+export interface PitchDeadline {
+  readonly expired: boolean
+  guard(parts: AsyncIterable<PitchStreamPart>): AsyncIterable<PitchStreamPart>
+  clear(): void // stop the clocks of a pitch that ended before guard() ran
+}
+
+// Start the time-to-first-token and total deadlines for one pitch. Both
+// clocks run from creation, so connecting to the provider counts. When one
+// fires, the upstream call is aborted and guard() ends the stream with a
+// 'timeout' finish, keeping the text generated so far. A pitch with no text
+// at all fails with TIMEOUT_ERROR instead. guard() stops the clocks when the
+// stream ends; a pitch that fails before streaming must call clear().
+export function createPitchDeadline(
+  { firstTokenMs, totalMs }: PitchDeadlineOptions,
+  upstream: AbortController
+): PitchDeadline {
+  let expired = false
+  const expire = () => {
+    expired = true
+    upstream.abort()
+  }
+
+  const firstTokenTimer = setTimeout(expire, Math.min(firstTokenMs, totalMs))
+  const totalTimer = setTimeout(expire, totalMs)
+  const clear = () => {
+    clearTimeout(firstTokenTimer)
+    clearTimeout(totalTimer)
+  }
+
+  async function* guard(parts: AsyncIterable<PitchStreamPart>): AsyncIterable<PitchStreamPart> {
+    let receivedText = false
+    let finished = false
+
+    try {
+      for await (const part of parts) {
+        if (expired) break
+
+        if (part.type === 'text') {
+          receivedText = true
+          clearTimeout(firstTokenTimer)
+        } else if (part.type === 'finish') {
+          finished = true
+        }
+        yield part
+      }
+    } catch (error) {
+      // The abort we triggered surfaces as a transport error
+      if (!expired) throw error
+    } finally {
+      clear()
+    }
+
+    if (!expired || finished) return
+
+    if (!receivedText) {
+      throw createAPIError(
+        'TIMEOUT_ERROR',
+        `No response within ${Math.round(Math.min(firstTokenMs, totalMs) / 1000)}s`,
+        { retryable: true }
+      )
+    }
+    yield { type: 'finish', finishReason: 'timeout' }
+  }
+
+  return {
+    get expired() {
+      return expired
+    },
+    guard,
+    clear,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Wire Format
+// -----------------------------------------------------------------------------
+
+export interface PitchResponseOptions {
+  id: string
+  params: GenerationParams
+  fallbackFrom?: string // requested model, when params.modelName is a fallback
+  headers: Record<string, string>
+  abortController?: AbortController // the one whose signal the transport was given
+}
+
+// Rough size of streamed text when the provider never got to report usage
+const CHARS_PER_TOKEN = 4
+
+function logCancelledPitch(provider: string, id: string, startedAt: number, usage: TokenUsage | undefined, outputChars: number) {
+  const tokens = usage?.totalTokens !== undefined
+    ? `${usage.totalTokens} tokens`
+    : `~${Math.ceil(outputChars / CHARS_PER_TOKEN)} output tokens (estimated)`
+  console.info(`${provider} pitch ${id} cancelled by client after ${Date.now() - startedAt}ms, ${tokens} spent`)
+}
+
+// Run a pitch as a resumable generation and stream it to the client. The
+// transport parts are encoded as the pitch wire protocol; stream failures
+// are sent as an error event so the client sees them even after the 200
+// status. If every client disconnects and none resumes within the grace
+// period, the abort controller is fired so the provider stops generating.
+export function createPitchResponse(
+  descriptor: ProviderDescriptor,
+  parts: AsyncIterable<PitchStreamPart>,
+  { id, params, fallbackFrom, headers, abortController }: PitchResponseOptions
+): Response {
+  const provider = descriptor.provider
+  const generation = createPitchGeneration(id, provider, () => abortController?.abort())
+  const startedAt = Date.now()
+  const isAborted = () => abortController?.signal.aborted ?? false
+
+  const send = (event: PitchWireEvent) => generation.push(event)
+
+  const run = async () => {
+    let usage: TokenUsage | undefined
+    let outputChars = 0
+    let finishReason: PitchFinishReason = 'stop'
+
+    send({ type: 'start', id, provider, params, fallbackFrom, timestamp: new Date().toISOString() })
+
+    try {
+      for await (const part of parts) {
+        if (isAborted()) break
+
+        if (part.type === 'text') {
+          outputChars += part.text.length
+          send({
+            type: 'text-delta',
+            chunk: {
+              id,
+              provider,
+              content: part.text,
+              isComplete: false,
+              timestamp: new Date().toISOString(),
+            },
+          })
+        } else if (part.type === 'usage') {
+          usage = part.usage
+          send({ type: 'usage', usage: createUsageReport(params.modelName, part.usage) })
+        } else {
+          finishReason = part.finishReason
+        }
+      }
+
+      if (isAborted()) {
+        logCancelledPitch(provider, id, startedAt, usage, outputChars)
+        return
+      }
+
+      send({ type: 'finish', finishReason, timestamp: new Date().toISOString() })
+    } catch (error) {
+      // The client is gone, so there is nobody to send the error to
+      if (isAborted()) {
+        logCancelledPitch(provider, id, startedAt, usage, outputChars)
+        return
+      }
+
+      console.error(`${provider} streaming error:`, error)
+      const apiError: APIError = isAPIError(error)
+        ? { ...error, provider }
+        : createAPIError(
+            'STREAM_ERROR',
+            error instanceof Error && error.message ? error.message : 'Streaming failed',
+            { provider, retryable: true }
+          )
+      send({ type: 'error', error: apiError })
+    }
+  }
+
+  run().finally(() => generation.end())
+
+  return resumePitchResponse(generation, 0, headers)
+}
+
+// Stream a generation to a (re)connecting client, starting at event `offset`
+export function resumePitchResponse(
+  generation: PitchGeneration,
+  offset: number,
+  headers: Record<string, string>
+): Response {
+  return new Response(generation.createStream(offset), {
+    headers: {
+      'Content-Type': PITCH_STREAM_CONTENT_TYPE,
+      ...headers,
+    },
+  })
+}
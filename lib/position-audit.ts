@@ -0,0 +1,186 @@
+// =============================================================================
+// AI STARTUP BATTLE - JUDGE POSITION-BIAS AUDIT (SERVER ONLY)
+// =============================================================================
+//
+// Re-judges one set of pitches once per presentation order through the same
+// pipeline as /api/judge and reports how far scores and winners move. Up to
+// MAX_PERMUTATIONS orders (four pitches) every permutation is run; bigger
+// battles run each rotation of the request's order instead, which still puts
+// every pitch in every position once but leaves most orders out; the report
+// flags such an audit as partial.
+
+import {
+  JudgeRequest,
+  PositionAuditCoverage,
+  PositionAuditReport,
+  PositionAuditRun,
+  PositionAuditSlotStats,
+  SlotId,
+  UsageReport,
+  DEFAULT_JUDGE_PANEL,
+  DEFAULT_JUDGING_CRITERIA,
+  isAPIError
+} from './types'
+import { JudgeBattleOptions, judgeBattle } from './judge-pipeline'
+import { sumUsage } from './pricing'
+
+const MAX_PERMUTATIONS = 24
+
+// Orders judged at once; each one is a call to every judge on the panel
+const AUDIT_CONCURRENCY = 3
+
+export type PositionAuditResult = Omit<PositionAuditReport, 'id' | 'timestamp' | 'metadata'> & { usage: UsageReport }
+
+// -----------------------------------------------------------------------------
+// Orderings
+// -----------------------------------------------------------------------------
+
+function permutations(items: SlotId[]): SlotId[][] {
+  if (items.length <= 1) {
+    return [items]
+  }
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  )
+}
+
+function rotations(items: SlotId[]): SlotId[][] {
+  return items.map((_, offset) => [...items.slice(offset), ...items.slice(0, offset)])
+}
+
+export function listAuditOrders(slotIds: SlotId[]): {
+  coverage: PositionAuditCoverage
+  orders: SlotId[][]
+  possibleOrders: number
+} {
+  let possibleOrders = 1
+  for (let n = 2; n <= slotIds.length; n++) possibleOrders *= n
+
+  return possibleOrders <= MAX_PERMUTATIONS
+    ? { coverage: 'permutations', orders: permutations(slotIds), possibleOrders }
+    : { coverage: 'rotations', orders: rotations(slotIds), possibleOrders }
+}
+
+// -----------------------------------------------------------------------------
+// Statistics
+// -----------------------------------------------------------------------------
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+// Population standard deviation
+function stdDev(values: number[]): number {
+  const average = mean(values)
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)))
+}
+
+export function summarizeAudit(
+  slotIds: SlotId[],
+  runs: PositionAuditRun[]
+): Pick<PositionAuditReport, 'slots' | 'winnerStability' | 'maxScoreRange' | 'positionBias'> {
+  const completed = runs.filter(
+    (run): run is PositionAuditRun & Required<Pick<PositionAuditRun, 'winner' | 'scores'>> => !!run.scores && !!run.winner
+  )
+  const allScores = completed.flatMap(run => slotIds.map(slot => run.scores[slot]))
+  const overallMean = mean(allScores)
+
+  const slots: Record<SlotId, PositionAuditSlotStats> = Object.fromEntries(
+    slotIds.map((slot): [SlotId, PositionAuditSlotStats] => {
+      const scores = completed.map(run => run.scores[slot])
+      const meanScoreByPosition = slotIds.map((_, position) => {
+        const shown = completed.filter(run => run.order[position] === slot).map(run => run.scores[slot])
+        return shown.length > 0 ? round(mean(shown)) : null
+      })
+
+      return [
+        slot,
+        {
+          meanScore: round(mean(scores)),
+          minScore: Math.min(...scores),
+          maxScore: Math.max(...scores),
+          stdDev: round(stdDev(scores)),
+          wins: completed.filter(run => (run.coWinners ?? [run.winner]).includes(slot)).length,
+          meanScoreByPosition,
+        },
+      ]
+    })
+  )
+
+  const positionBias = slotIds.map((_, position) =>
+    round(mean(completed.map(run => run.scores[run.order[position]])) - overallMean)
+  )
+
+  return {
+    slots,
+    winnerStability: round(Math.max(...slotIds.map(slot => slots[slot].wins)) / completed.length),
+    maxScoreRange: round(Math.max(...slotIds.map(slot => slots[slot].maxScore - slots[slot].minScore))),
+    positionBias,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Audit
+// -----------------------------------------------------------------------------
+
+// Judge a validated request under every order. A failed order is reported in
+// its run; the audit only fails when every order failed (or the client left).
+export async function runPositionAudit(
+  request: JudgeRequest,
+  { cassetteMode, signal }: Omit<JudgeBattleOptions, 'order'>
+): Promise<PositionAuditResult> {
+  const slotIds = Object.keys(request.pitches)
+  const { coverage, orders, possibleOrders } = listAuditOrders(slotIds)
+  const runs: PositionAuditRun[] = new Array(orders.length)
+  const usages: UsageReport[] = []
+  let firstError: unknown
+
+  let next = 0
+  const worker = async () => {
+    while (next < orders.length && !signal.aborted) {
+      const index = next++
+      const order = orders[index]
+      try {
+        const verdict = await judgeBattle(request, { cassetteMode, signal, order })
+        usages.push(verdict.usage)
+        runs[index] = {
+          order,
+          winner: verdict.winner,
+          coWinners: verdict.tie && verdict.tie.winners.length > 1 ? verdict.tie.winners : undefined,
+          scores: Object.fromEntries(slotIds.map(slot => [slot, verdict.scores[slot].score])),
+        }
+      } catch (error) {
+        firstError ??= error
+        runs[index] = {
+          order,
+          error: {
+            code: isAPIError(error) ? error.code : 'JUDGE_ERROR',
+            message: isAPIError(error) ? error.message : 'The panel could not score the pitches',
+          },
+        }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(AUDIT_CONCURRENCY, orders.length) }, worker))
+
+  if (signal.aborted || runs.every(run => run.error)) {
+    throw firstError ?? new Error('Position audit cancelled')
+  }
+
+  const panel = request.panel ?? DEFAULT_JUDGE_PANEL
+  return {
+    coverage,
+    partial: orders.length < possibleOrders,
+    possibleOrders,
+    judges: panel.judges,
+    aggregation: panel.aggregation,
+    criteria: request.criteria ?? DEFAULT_JUDGING_CRITERIA,
+    blind: !!request.blind,
+    runs,
+    ...summarizeAudit(slotIds, runs),
+    usage: sumUsage(usages),
+  }
+}
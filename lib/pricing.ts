@@ -0,0 +1,79 @@
+// =============================================================================
+// AI STARTUP BATTLE - MODEL PRICING
+// =============================================================================
+
+import { TokenUsage, UsageReport } from './types'
+
+export interface ModelPricing {
+  inputPerMillion: number // USD per 1M input tokens
+  outputPerMillion: number // USD per 1M output tokens
+}
+
+// List prices in USD. Models missing here report tokens without a cost.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  // Groq
+  'llama-3.3-70b-versatile': { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+  'llama-3.1-8b-instant': { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+  'gemma2-9b-it': { inputPerMillion: 0.2, outputPerMillion: 0.2 },
+
+  // OpenAI
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+
+  // Anthropic
+  'claude-opus-4-20250514': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet-20250219': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+
+  // Local models run on your own hardware
+  'llama3.2': { inputPerMillion: 0, outputPerMillion: 0 },
+  'llama3.1': { inputPerMillion: 0, outputPerMillion: 0 },
+  'qwen2.5': { inputPerMillion: 0, outputPerMillion: 0 },
+  'mistral': { inputPerMillion: 0, outputPerMillion: 0 },
+}
+
+export function getModelPricing(modelName: string): ModelPricing | undefined {
+  return MODEL_PRICING[modelName]
+}
+
+export function calculateCost(modelName: string, usage: TokenUsage): number | undefined {
+  const pricing = getModelPricing(modelName)
+  if (!pricing || usage.inputTokens === undefined || usage.outputTokens === undefined) {
+    return undefined
+  }
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000
+}
+
+export function createUsageReport(modelName: string, usage: TokenUsage): UsageReport {
+  return { ...usage, costUSD: calculateCost(modelName, usage) }
+}
+
+// Add up several reports; a field stays undefined only if no report had it
+export function sumUsage(reports: Array<UsageReport | undefined>): UsageReport {
+  const add = (a: number | undefined, b: number | undefined) =>
+    a === undefined ? b : b === undefined ? a : a + b
+
+  return reports.reduce<UsageReport>(
+    (total, report) => ({
+      inputTokens: add(total.inputTokens, report?.inputTokens),
+      outputTokens: add(total.outputTokens, report?.outputTokens),
+      totalTokens: add(total.totalTokens, report?.totalTokens),
+      costUSD: add(total.costUSD, report?.costUSD),
+    }),
+    {}
+  )
+}
+
+export function formatTokens(usage: UsageReport): string {
+  const total = usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0)
+  return `${total.toLocaleString('en-US')} tokens`
+}
+
+export function formatCost(costUSD: number | undefined): string {
+  if (costUSD === undefined) return 'cost n/a'
+  if (costUSD === 0) return 'free'
+  return costUSD < 0.01 ? `$${costUSD.toFixed(4)}` : `$${costUSD.toFixed(2)}`
+}
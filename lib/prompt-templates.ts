@@ -1,3 +1,14 @@
+import {
+  CriterionScores,
+  DEFAULT_JUDGING_CRITERIA,
+  JUDGING_CRITERION_LABELS,
+  JudgingCriteria,
+  JudgingCriterion,
+  PitchPromptStyle,
+} from './types';
+import { getSlotJudgeLabel, parseSlotId } from './provider-registry';
+import { z } from 'zod';
+
 /**
  * Optimized Prompt Templates for AI Startup Battle
  * 
@@ -16,22 +27,10 @@ export interface PitchParams {
 
 // Interface for judge evaluation parameters
 export interface JudgeParams extends PitchParams {
-  pitches: {
-    groq: string
-    openai: string
-    anthropic: string
-  }
-}
-
-// Interface for judge response
-export interface JudgeResponse {
-  scores: {
-    groq: number
-    openai: number
-    anthropic: number
-  }
-  winner: string
-  reasoning: string
+  pitches: Record<string, string>
+  truncated?: string[] // pitches cut off by the server deadline
+  criteria?: JudgingCriteria // weights, summing to 1
+  blind?: boolean // pitches are keyed by letter, see lib/blind-judging.ts
 }
 
 /**
@@ -162,26 +161,93 @@ APPROACH: Be thorough yet concise. Support claims with logical reasoning. Consid
  * - JSON output requirement for system integration
  * - Balanced scoring methodology
  */
-export const getJudgePrompt = ({ concept, userGroup, pitches }: JudgeParams): string => {
-  return `You are a seasoned venture capital partner with 15+ years evaluating early-stage startups. Evaluate these three pitches for "${concept} for ${userGroup}" with professional rigor.
+// Sample scores for the output format example; the second pitch is shown winning
+const EXAMPLE_SCORES = [6, 8, 7, 5, 7, 6];
+
+const CRITERION_QUESTIONS: Record<JudgingCriterion, string> = {
+  marketViability: 'How realistic is the target market and user need assessment?',
+  innovation: 'How creative and differentiated is the solution approach?',
+  monetizationClarity: 'How well-defined and realistic are the revenue streams?',
+  tamAccuracy: 'How credible is the market sizing and methodology?',
+  pitchQuality: 'How compelling and professional is the overall presentation?',
+};
 
-EVALUATION CRITERIA (each scored 1-10):
-1. MARKET VIABILITY: How realistic is the target market and user need assessment?
-2. INNOVATION: How creative and differentiated is the solution approach?
-3. MONETIZATION CLARITY: How well-defined and realistic are the revenue streams?
-4. TAM ACCURACY: How credible is the market sizing and methodology?
-5. PITCH QUALITY: How compelling and professional is the overall presentation?
+const CRITERIA = Object.keys(JUDGING_CRITERION_LABELS) as JudgingCriterion[];
 
-PITCHES TO EVALUATE:
+// Room for rounding when weights are entered as percentages
+const CRITERIA_WEIGHT_TOLERANCE = 0.001;
+
+// How the judge prompts name a pitch: "PITCH A" when blind, else the model
+const getPitchLabel = (slotId: string, blind: boolean): string => {
+  if (blind) return `PITCH ${slotId}`;
+  const slot = parseSlotId(slotId);
+  return slot ? getSlotJudgeLabel(slot) : slotId.toUpperCase();
+};
+
+// The pitch texts under their headings, followed by the truncation and
+// blind-judging notes that apply
+const formatPitchSections = (pitches: Record<string, string>, truncated: string[], blind: boolean): string => {
+  const pitchSections = Object.keys(pitches)
+    .map((slotId) => {
+      const cutOff = truncated.includes(slotId) ? ' (CUT OFF AT TIME LIMIT)' : '';
+      const heading = blind ? getPitchLabel(slotId, blind) : `${getPitchLabel(slotId, blind)} PITCH`;
+      return `**${heading}${cutOff}:**\n${pitches[slotId]}`;
+    })
+    .join('\n\n');
+
+  const blindNote = blind
+    ? '\n\nNOTE: The pitches are anonymized and listed in random order. Judge each one on its content alone; do not try to work out which model wrote it.'
+    : '';
+
+  const truncationNote = truncated.length > 0
+    ? `\n\nNOTE: ${truncated.map((slotId) => getPitchLabel(slotId, blind)).join(', ')} ${truncated.length === 1 ? 'was' : 'were'} cut off by the time limit before finishing. Judge ${truncated.length === 1 ? 'that pitch' : 'those pitches'} on what was delivered; missing sections count as missing.`
+    : '';
+
+  return `${pitchSections}${truncationNote}${blindNote}`;
+};
 
-**GROQ/LLAMA 3.3 PITCH:**
-${pitches.groq}
+export const getJudgePrompt = ({
+  concept,
+  userGroup,
+  pitches,
+  truncated = [],
+  criteria = DEFAULT_JUDGING_CRITERIA,
+  blind = false,
+}: JudgeParams): string => {
+  const slotIds = Object.keys(pitches);
+  const count = slotIds.length;
+
+  const exampleScores = slotIds
+    .map((slotId, index) => {
+      const base = index === 1 ? 1 : 0; // keep the example winner ahead
+      const criteria = CRITERIA
+        .map((criterion, offset) => `"${criterion}": ${Math.min(10, EXAMPLE_SCORES[(index + offset) % EXAMPLE_SCORES.length] + base)}`)
+        .join(', ');
+      return `    "${slotId}": { ${criteria} }`;
+    })
+    .join(',\n');
+
+  const criteriaList = CRITERIA
+    .map((criterion, index) => {
+      const weight = Math.round(criteria[criterion] * 100);
+      return `${index + 1}. ${JUDGING_CRITERION_LABELS[criterion]} ("${criterion}", weight ${weight}%): ${CRITERION_QUESTIONS[criterion]}`;
+    })
+    .join('\n');
+
+  const comparison = count === 2
+    ? `- Compare both pitches directly against each other
+- Identify what made the winner stand out from the other one`
+    : `- Compare all ${count} pitches directly against each other
+- Identify what made the winner stand out from the other ${count - 1}`;
+
+  return `You are a seasoned venture capital partner with 15+ years evaluating early-stage startups. Evaluate these ${count} pitches for "${concept} for ${userGroup}" with professional rigor.
+
+EVALUATION CRITERIA (score every pitch 1-10 on each; a pitch's overall score is the weighted mean):
+${criteriaList}
 
-**OPENAI/GPT-4O PITCH:**
-${pitches.openai}
+PITCHES TO EVALUATE:
 
-**ANTHROPIC/SONNET 4 PITCH:**
-${pitches.anthropic}
+${formatPitchSections(pitches, truncated, blind)}
 
 SCORING GUIDELINES:
 - 8-10: Exceptional (top 10% of pitches you've seen)
@@ -189,34 +255,111 @@ SCORING GUIDELINES:
 - 4-5: Average (significant concerns but potential)
 - 1-3: Poor (major flaws or unrealistic assumptions)
 
-REQUIRED OUTPUT FORMAT (valid JSON only):
+REQUIRED OUTPUT FORMAT (valid JSON only, with reasoning first):
 {
+  "reasoning": "[Provide a comprehensive 1-paragraph analysis (4-6 sentences) that: 1) Briefly summarizes the key strengths and weaknesses of each pitch, 2) Explicitly contrasts their different approaches to market positioning, solution design, or go-to-market strategy, 3) Clearly explains why the winning pitch was superior - was it more realistic market analysis, better monetization strategy, stronger competitive advantage, or more compelling execution plan? 4) Mention specific elements from the pitches that influenced your decision.]",
   "scores": {
-    "groq": 6,
-    "openai": 8, 
-    "anthropic": 7
+${exampleScores}
   },
-  "winner": "openai",
-  "reasoning": "[Provide a comprehensive 1-paragraph analysis (4-6 sentences) that: 1) Briefly summarizes the key strengths and weaknesses of each pitch, 2) Explicitly contrasts their different approaches to market positioning, solution design, or go-to-market strategy, 3) Clearly explains why the winning pitch was superior - was it more realistic market analysis, better monetization strategy, stronger competitive advantage, or more compelling execution plan? 4) Mention specific elements from the pitches that influenced your decision.]"
+  "winner": "${slotIds[1] ?? slotIds[0]}"
 }
 
-CRITICAL: Each score MUST be a single integer from 1-10, NOT an array. Example: "groq": 6 (correct), NOT "groq": [6, 7, 8] (incorrect).
+CRITICAL: Use exactly these score keys: ${slotIds.map((slotId) => `"${slotId}"`).join(', ')}. Each pitch's score MUST be an object with exactly the criterion keys ${CRITERIA.map((criterion) => `"${criterion}"`).join(', ')}, and each criterion score MUST be a single integer from 1-10, NOT an array. The winner should be the pitch with the best weighted score.
 
 ANALYSIS REQUIREMENTS:
-- Compare all three pitches directly against each other
-- Identify what made the winner stand out from the other two
+${comparison}
 - Be specific about strengths/weaknesses rather than generic
 - Focus on fundability from a VC perspective
 - Evaluate objectively based on startup fundamentals, not model preferences`;
 };
 
+/**
+ * PAIRWISE JUDGE TEMPLATE
+ *
+ * One head-to-head matchup per call: two pitches, one winner. Short prompts
+ * that stay the same size however many contestants there are, and the
+ * preferences feed the Bradley-Terry/Copeland ranking in
+ * lib/pairwise-ranking.ts.
+ */
+export const getPairwiseJudgePrompt = ({
+  concept,
+  userGroup,
+  pitches,
+  truncated = [],
+  criteria = DEFAULT_JUDGING_CRITERIA,
+  blind = false,
+}: JudgeParams): string => {
+  const slotIds = Object.keys(pitches);
+
+  const criteriaList = [...CRITERIA]
+    .sort((a, b) => criteria[b] - criteria[a])
+    .map((criterion) => `- ${JUDGING_CRITERION_LABELS[criterion]} (weight ${Math.round(criteria[criterion] * 100)}%): ${CRITERION_QUESTIONS[criterion]}`)
+    .join('\n');
+
+  return `You are a seasoned venture capital partner with 15+ years evaluating early-stage startups. Two pitches for "${concept} for ${userGroup}" are going head to head. Decide which one is more fundable, and why.
+
+WEIGH THESE CRITERIA (most important first):
+${criteriaList}
+
+THE TWO PITCHES:
+
+${formatPitchSections(pitches, truncated, blind)}
+
+REQUIRED OUTPUT FORMAT (valid JSON only, with reasoning first):
+{
+  "reasoning": "[2-4 sentences contrasting the two pitches on the criteria above, naming specific elements of each, and explaining why the winner is more fundable]",
+  "winner": "[key of the more fundable pitch]"
+}
+
+CRITICAL: "winner" MUST be exactly ${slotIds.map((slotId) => `"${slotId}"`).join(' or ')}. Pick one even when they are close; there are no ties. Judge on startup fundamentals, not on which pitch was listed first or which model you think wrote it.`;
+};
+
+/**
+ * RUN-OFF JUDGE TEMPLATE
+ *
+ * Settles a tie for first place: only the tied pitches, and the judge must
+ * name one of them.
+ */
+export const getRunoffJudgePrompt = ({
+  concept,
+  userGroup,
+  pitches,
+  truncated = [],
+  criteria = DEFAULT_JUDGING_CRITERIA,
+  blind = false,
+}: JudgeParams): string => {
+  const slotIds = Object.keys(pitches);
+
+  const criteriaList = [...CRITERIA]
+    .sort((a, b) => criteria[b] - criteria[a])
+    .map((criterion) => `- ${JUDGING_CRITERION_LABELS[criterion]} (weight ${Math.round(criteria[criterion] * 100)}%): ${CRITERION_QUESTIONS[criterion]}`)
+    .join('\n');
+
+  return `You are a seasoned venture capital partner with 15+ years evaluating early-stage startups. These ${slotIds.length} pitches for "${concept} for ${userGroup}" finished level on the judges' scores. Break the tie: decide which one you would fund, and why.
+
+WEIGH THESE CRITERIA (most important first):
+${criteriaList}
+
+THE TIED PITCHES:
+
+${formatPitchSections(pitches, truncated, blind)}
+
+REQUIRED OUTPUT FORMAT (valid JSON only, with reasoning first):
+{
+  "reasoning": "[2-4 sentences naming what sets the winner apart from the other tied ${slotIds.length === 2 ? 'pitch' : 'pitches'}, with specific elements of each]",
+  "winner": "[key of the pitch that wins the run-off]"
+}
+
+CRITICAL: "winner" MUST be exactly one of ${slotIds.map((slotId) => `"${slotId}"`).join(', ')}. A tie is not an answer. Judge on startup fundamentals, not on which pitch was listed first or which model you think wrote it.`;
+};
+
 /**
  * UTILITY FUNCTIONS
  */
 
-// Get the appropriate prompt based on model
-export const getPitchPrompt = (model: 'groq' | 'openai' | 'anthropic', params: PitchParams): string => {
-  switch (model) {
+// Get the appropriate prompt based on a provider's prompt style
+export const getPitchPrompt = (style: PitchPromptStyle, params: PitchParams): string => {
+  switch (style) {
     case 'groq':
       return getGroqPitchPrompt(params);
     case 'openai':
@@ -224,32 +367,109 @@ export const getPitchPrompt = (model: 'groq' | 'openai' | 'anthropic', params: P
     case 'anthropic':
       return getAnthropicPitchPrompt(params);
     default:
-      throw new Error(`Unknown model: ${model}`);
+      throw new Error(`Unknown prompt style: ${style}`);
+  }
+};
+
+// The verdict a judge must return for pitches listed under slotIds. Scores
+// outside 1-10 fail validation; fractional ones are rounded by normalizeScores.
+// Reasoning comes first so the judge argues before it scores, and so it can
+// be streamed while the scores are still being written.
+export const createJudgeOutputSchema = (slotIds: string[]) => {
+  const criterionScore = z.number().min(1).max(10);
+  const criterionScores = z.object({
+    marketViability: criterionScore,
+    innovation: criterionScore,
+    monetizationClarity: criterionScore,
+    tamAccuracy: criterionScore,
+    pitchQuality: criterionScore,
+  }) satisfies z.ZodType<CriterionScores>;
+
+  return z.object({
+    reasoning: z.string().trim().min(1),
+    scores: z.object(
+      Object.fromEntries(slotIds.map((slotId) => [slotId, criterionScores])) as Record<string, typeof criterionScores>
+    ),
+    winner: z.enum(slotIds as [string, ...string[]]),
+  });
+};
+
+export type JudgeOutput = z.infer<ReturnType<typeof createJudgeOutputSchema>>;
+
+// The answer to one head-to-head matchup between the two slotIds
+export const createPairwiseOutputSchema = (slotIds: [string, string]) => {
+  return z.object({
+    reasoning: z.string().trim().min(1),
+    winner: z.enum(slotIds),
+  });
+};
+
+export type PairwiseOutput = z.infer<ReturnType<typeof createPairwiseOutputSchema>>;
+
+// The answer to a run-off between the tied slotIds
+export const createRunoffOutputSchema = (slotIds: string[]) => {
+  return z.object({
+    reasoning: z.string().trim().min(1),
+    winner: z.enum(slotIds as [string, ...string[]]),
+  });
+};
+
+// Ask again after a verdict failed the schema, quoting the rejected output
+// and what was wrong with it
+export const getJudgeRepairPrompt = (prompt: string, output: string | undefined, issues: string): string => {
+  return `${prompt}
+
+YOUR PREVIOUS ANSWER WAS REJECTED:
+${output?.trim() || '(no output)'}
+
+PROBLEMS FOUND:
+${issues}
+
+Answer again with the complete evaluation as valid JSON in the required output format, fixing every problem listed above.`;
+};
+
+// Criterion weights must cover exactly the five criteria, each from 0 to 1,
+// and sum to 1
+export const validateJudgingCriteria = (criteria: any): { isValid: boolean; error?: string } => {
+  if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) {
+    return { isValid: false, error: 'criteria must be an object of weights' };
+  }
+
+  const unknown = Object.keys(criteria).filter((key) => !CRITERIA.includes(key as JudgingCriterion));
+  if (unknown.length > 0) {
+    return { isValid: false, error: `Unknown criteria: ${unknown.join(', ')}` };
   }
+
+  for (const criterion of CRITERIA) {
+    const weight = criteria[criterion];
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 1) {
+      return { isValid: false, error: `${criterion} weight must be a number between 0 and 1` };
+    }
+  }
+
+  const total = CRITERIA.reduce((sum, criterion) => sum + criteria[criterion], 0);
+  if (Math.abs(total - 1) > CRITERIA_WEIGHT_TOLERANCE) {
+    return { isValid: false, error: `Criteria weights must sum to 1, got ${Math.round(total * 1000) / 1000}` };
+  }
+
+  return { isValid: true };
 };
 
-// Validate judge response format
-export const validateJudgeResponse = (response: any): response is JudgeResponse => {
-  return (
-    response &&
-    typeof response === 'object' &&
-    response.scores &&
-    typeof response.scores.groq === 'number' &&
-    typeof response.scores.openai === 'number' &&
-    typeof response.scores.anthropic === 'number' &&
-    typeof response.winner === 'string' &&
-    ['groq', 'openai', 'anthropic'].includes(response.winner) &&
-    typeof response.reasoning === 'string' &&
-    response.reasoning.length > 0
-  );
-};
-
-// Helper to ensure scores are within valid range
-export const normalizeScores = (scores: { groq: number; openai: number; anthropic: number }) => {
+// Helper to ensure every criterion score is an integer from 1 to 10
+export const normalizeScores = (scores: CriterionScores): CriterionScores => {
   const clamp = (value: number) => Math.max(1, Math.min(10, Math.round(value)));
-  return {
-    groq: clamp(scores.groq),
-    openai: clamp(scores.openai),
-    anthropic: clamp(scores.anthropic),
-  };
-};
\ No newline at end of file
+  return Object.fromEntries(
+    CRITERIA.map((criterion) => [criterion, clamp(scores[criterion])])
+  ) as CriterionScores;
+};
+
+// Weighted mean of the criterion scores, to one decimal. Weights need not
+// sum to 1.
+export const computeOverallScore = (
+  scores: CriterionScores,
+  weights: JudgingCriteria = DEFAULT_JUDGING_CRITERIA
+): number => {
+  const totalWeight = CRITERIA.reduce((sum, criterion) => sum + weights[criterion], 0);
+  const weighted = CRITERIA.reduce((sum, criterion) => sum + scores[criterion] * weights[criterion], 0);
+  return Math.round((weighted / totalWeight) * 10) / 10;
+};
@@ -0,0 +1,104 @@
+// =============================================================================
+// AI STARTUP BATTLE - PROVIDER CONNECTIONS (SERVER ONLY)
+// =============================================================================
+
+import { GenerationParams, ModelConfig, ParamRange, ProviderConnection, ProviderDescriptor } from './types'
+
+function readEnv(envKey?: string): string | undefined {
+  const value = envKey ? process.env[envKey]?.trim() : undefined
+  return value ? value : undefined
+}
+
+// Resolve the API key, endpoint and model a descriptor should use right now,
+// applying any environment overrides
+export function resolveProviderConnection(descriptor: ProviderDescriptor): ProviderConnection {
+  return {
+    apiKey: readEnv(descriptor.envKey),
+    baseURL: readEnv(descriptor.baseURLEnvKey) ?? descriptor.baseURL,
+    modelName: readEnv(descriptor.modelEnvKey) ?? descriptor.modelName,
+  }
+}
+
+export function hasProviderCredentials(descriptor: ProviderDescriptor): boolean {
+  return !!descriptor.apiKeyOptional || !!readEnv(descriptor.envKey)
+}
+
+// Whether a keyless provider was set up on purpose. Its default base URL is
+// a server on localhost, which a cloud deployment does not have.
+export function hasExplicitBaseURL(descriptor: ProviderDescriptor): boolean {
+  return !!readEnv(descriptor.baseURLEnvKey)
+}
+
+// -----------------------------------------------------------------------------
+// Generation Params
+// -----------------------------------------------------------------------------
+
+export type GenerationParamsResult =
+  | { isValid: true; params: GenerationParams }
+  | { isValid: false; error: string }
+
+function checkRange(name: string, value: unknown, range: ParamRange, integer = false): string | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    return `${name} must be ${integer ? 'an integer' : 'a number'}`
+  }
+  if (value < range.min || value > range.max) {
+    return `${name} must be between ${range.min} and ${range.max}`
+  }
+  return undefined
+}
+
+// Merge a request's modelConfig over the contestant's defaults, rejecting
+// models outside the whitelist and params outside the provider's limits
+export function resolveGenerationParams(
+  descriptor: ProviderDescriptor,
+  connection: ProviderConnection,
+  overrides: Partial<ModelConfig> = {}
+): GenerationParamsResult {
+  const { allowedModels, paramLimits } = descriptor
+
+  if (overrides.modelName !== undefined) {
+    const allowed = [connection.modelName, ...allowedModels]
+    if (typeof overrides.modelName !== 'string' || !allowed.includes(overrides.modelName)) {
+      return { isValid: false, error: `modelName must be one of: ${allowed.join(', ')}` }
+    }
+  }
+
+  const params: GenerationParams = {
+    modelName: overrides.modelName ?? connection.modelName,
+    temperature: overrides.temperature ?? descriptor.temperature ?? 0.7,
+    topP: overrides.topP ?? descriptor.topP ?? 0.9,
+    maxTokens: overrides.maxTokens ?? descriptor.maxTokens ?? 2048,
+  }
+
+  const error =
+    checkRange('temperature', params.temperature, paramLimits.temperature) ??
+    checkRange('topP', params.topP, paramLimits.topP) ??
+    checkRange('maxTokens', params.maxTokens, paramLimits.maxTokens, true)
+
+  return error ? { isValid: false, error } : { isValid: true, params }
+}
+
+export type FallbackModelsResult =
+  | { isValid: true; models: string[] }
+  | { isValid: false; error: string }
+
+// The ordered models to try after modelName fails: the request's own list if
+// it sent one, otherwise the chain declared in the registry
+export function resolveFallbackModels(
+  descriptor: ProviderDescriptor,
+  connection: ProviderConnection,
+  modelName: string,
+  requested?: unknown
+): FallbackModelsResult {
+  if (requested === undefined) {
+    return { isValid: true, models: descriptor.fallbackModels?.[modelName] ?? [] }
+  }
+
+  const allowed = [connection.modelName, ...descriptor.allowedModels]
+  if (!Array.isArray(requested) || requested.some(model => typeof model !== 'string' || !allowed.includes(model))) {
+    return { isValid: false, error: `fallbackModels must only list: ${allowed.join(', ')}` }
+  }
+
+  const models = (requested as string[]).filter((model, index) => model !== modelName && requested.indexOf(model) === index)
+  return { isValid: true, models }
+}
@@ -0,0 +1,228 @@
+// =============================================================================
+// AI STARTUP BATTLE - PROVIDER REGISTRY
+// =============================================================================
+
+import type { AIProvider, ContestantSlot, ModelParamLimits, ProviderDescriptor, SlotId } from './types'
+
+// -----------------------------------------------------------------------------
+// Built-in Providers
+// -----------------------------------------------------------------------------
+
+// Generation bounds accepted from pitch requests. Anthropic caps temperature
+// at 1; the OpenAI-style APIs accept up to 2.
+const OPENAI_STYLE_LIMITS: ModelParamLimits = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxTokens: { min: 1, max: 4096 },
+}
+
+const ANTHROPIC_LIMITS: ModelParamLimits = {
+  temperature: { min: 0, max: 1 },
+  topP: { min: 0, max: 1 },
+  maxTokens: { min: 1, max: 4096 },
+}
+
+// To add a contestant, register one more descriptor here. It is served by
+// /api/pitch/[provider] and picked up by the arena, judge and health check.
+const BUILT_IN_PROVIDERS: ProviderDescriptor[] = [
+  {
+    provider: 'groq',
+    modelName: 'llama-3.3-70b-versatile',
+    displayName: 'LLAMA 3.3',
+    icon: '⚡',
+    color: 'cyan',
+    temperature: 0.7,
+    maxTokens: 2048,
+    topP: 0.9,
+    transport: 'groq',
+    envKey: 'GROQ_API_KEY',
+    baseURLEnvKey: 'GROQ_BASE_URL',
+    promptStyle: 'groq',
+    judgeLabel: 'GROQ/LLAMA 3.3',
+    allowedModels: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'gemma2-9b-it'],
+    modelDisplayNames: {
+      'llama-3.1-8b-instant': 'LLAMA 3.1 8B',
+      'gemma2-9b-it': 'GEMMA 2 9B',
+    },
+    fallbackModels: {
+      'llama-3.3-70b-versatile': ['llama-3.1-8b-instant'],
+    },
+    paramLimits: OPENAI_STYLE_LIMITS,
+  },
+  {
+    provider: 'openai',
+    modelName: 'gpt-4o',
+    displayName: 'GPT-4o',
+    icon: '⬢',
+    color: 'emerald',
+    temperature: 0.7,
+    maxTokens: 2048,
+    topP: 0.9,
+    transport: 'openai',
+    envKey: 'OPENAI_API_KEY',
+    baseURLEnvKey: 'OPENAI_BASE_URL',
+    promptStyle: 'openai',
+    judgeLabel: 'OPENAI/GPT-4O',
+    allowedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    modelDisplayNames: {
+      'gpt-4o-mini': 'GPT-4o mini',
+      'gpt-4.1': 'GPT-4.1',
+      'gpt-4.1-mini': 'GPT-4.1 mini',
+    },
+    fallbackModels: {
+      'gpt-4o': ['gpt-4.1', 'gpt-4o-mini'],
+      'gpt-4.1': ['gpt-4o', 'gpt-4.1-mini'],
+    },
+    paramLimits: OPENAI_STYLE_LIMITS,
+  },
+  {
+    provider: 'anthropic',
+    modelName: 'claude-sonnet-4-20250514',
+    displayName: 'SONNET 4',
+    icon: '▲',
+    color: 'orange',
+    temperature: 0.7,
+    maxTokens: 2048,
+    topP: 0.9,
+    transport: 'anthropic',
+    envKey: 'ANTHROPIC_API_KEY',
+    baseURLEnvKey: 'ANTHROPIC_BASE_URL',
+    promptStyle: 'anthropic',
+    judgeLabel: 'ANTHROPIC/SONNET 4',
+    allowedModels: ['claude-sonnet-4-20250514', 'claude-3-7-sonnet-20250219', 'claude-3-5-haiku-20241022'],
+    modelDisplayNames: {
+      'claude-3-7-sonnet-20250219': 'SONNET 3.7',
+      'claude-3-5-haiku-20241022': 'HAIKU 3.5',
+    },
+    fallbackModels: {
+      'claude-sonnet-4-20250514': ['claude-3-7-sonnet-20250219', 'claude-3-5-haiku-20241022'],
+      'claude-3-7-sonnet-20250219': ['claude-3-5-haiku-20241022'],
+    },
+    paramLimits: ANTHROPIC_LIMITS,
+  },
+  {
+    // Any server speaking OpenAI chat completions. Defaults to Ollama.
+    provider: 'local',
+    modelName: 'llama3.2',
+    displayName: 'LOCAL LLM',
+    icon: '◆',
+    color: 'violet',
+    temperature: 0.7,
+    maxTokens: 2048,
+    topP: 0.9,
+    transport: 'openai-compatible',
+    envKey: 'LOCAL_LLM_API_KEY',
+    baseURL: 'http://localhost:11434/v1',
+    baseURLEnvKey: 'LOCAL_LLM_BASE_URL',
+    modelEnvKey: 'LOCAL_LLM_MODEL',
+    apiKeyOptional: true,
+    selectedByDefault: false,
+    promptStyle: 'openai',
+    judgeLabel: 'LOCAL LLM',
+    allowedModels: ['llama3.2', 'llama3.1', 'qwen2.5', 'mistral'],
+    paramLimits: OPENAI_STYLE_LIMITS,
+  },
+]
+
+// -----------------------------------------------------------------------------
+// Registry
+// -----------------------------------------------------------------------------
+
+const registry = new Map<AIProvider, ProviderDescriptor>()
+
+export function registerProvider(descriptor: ProviderDescriptor): ProviderDescriptor {
+  if (!/^[a-z0-9-]+$/.test(descriptor.provider)) {
+    throw new Error(`Invalid provider id: ${descriptor.provider}`)
+  }
+  if (registry.has(descriptor.provider)) {
+    throw new Error(`Provider already registered: ${descriptor.provider}`)
+  }
+
+  registry.set(descriptor.provider, descriptor)
+  return descriptor
+}
+
+export function getProvider(provider: AIProvider): ProviderDescriptor | undefined {
+  return registry.get(provider)
+}
+
+export function requireProvider(provider: AIProvider): ProviderDescriptor {
+  const descriptor = registry.get(provider)
+  if (!descriptor) {
+    throw new Error(`Unknown provider: ${provider}`)
+  }
+  return descriptor
+}
+
+export function isRegisteredProvider(provider: string): boolean {
+  return registry.has(provider)
+}
+
+export function listProviders(): ProviderDescriptor[] {
+  return Array.from(registry.values())
+}
+
+export function getProviderIds(): AIProvider[] {
+  return Array.from(registry.keys())
+}
+
+// -----------------------------------------------------------------------------
+// Battle Slots
+// -----------------------------------------------------------------------------
+
+export function toSlotId(provider: AIProvider, modelName?: string): SlotId {
+  return modelName ? `${provider}:${modelName}` : provider
+}
+
+// Picking the provider's configured model gives the bare provider slot, so
+// each (provider, model) pair has exactly one id
+export function createSlot(provider: AIProvider, modelName?: string): ContestantSlot {
+  const model = modelName && modelName !== requireProvider(provider).modelName ? modelName : undefined
+  return { id: toSlotId(provider, model), provider, modelName: model }
+}
+
+export function parseSlotId(id: SlotId): ContestantSlot | undefined {
+  const separator = id.indexOf(':')
+  const provider = separator === -1 ? id : id.slice(0, separator)
+  const modelName = separator === -1 ? undefined : id.slice(separator + 1)
+
+  // Only canonical ids parse: the configured model never carries a suffix
+  const descriptor = registry.get(provider)
+  if (
+    !descriptor ||
+    (modelName !== undefined && (modelName === descriptor.modelName || !descriptor.allowedModels.includes(modelName)))
+  ) {
+    return undefined
+  }
+  return { id, provider, modelName }
+}
+
+// Every slot the picker offers: each provider's configured model, then its
+// other allowed models
+export function listSlotOptions(provider: AIProvider): ContestantSlot[] {
+  const { modelName, allowedModels } = requireProvider(provider)
+  return [createSlot(provider), ...allowedModels.filter(model => model !== modelName).map(model => createSlot(provider, model))]
+}
+
+export function getSlotDisplayName(slot: ContestantSlot): string {
+  const descriptor = requireProvider(slot.provider)
+  if (!slot.modelName) {
+    return descriptor.displayName
+  }
+  return descriptor.modelDisplayNames?.[slot.modelName] ?? slot.modelName.toUpperCase()
+}
+
+// Label heading the slot's pitch in the judge prompt, e.g. "ANTHROPIC/HAIKU 3.5"
+export function getSlotJudgeLabel(slot: ContestantSlot): string {
+  const descriptor = requireProvider(slot.provider)
+  return slot.modelName ? `${slot.provider.toUpperCase()}/${getSlotDisplayName(slot)}` : descriptor.judgeLabel
+}
+
+// Contestants pre-selected in the picker; opt-in providers are left out
+export function getDefaultSlots(): ContestantSlot[] {
+  return listProviders()
+    .filter(descriptor => descriptor.selectedByDefault !== false)
+    .map(descriptor => createSlot(descriptor.provider))
+}
+
+BUILT_IN_PROVIDERS.forEach(registerProvider)
@@ -0,0 +1,184 @@
+// =============================================================================
+// AI STARTUP BATTLE - RATE LIMITING (SERVER ONLY)
+// =============================================================================
+//
+// Token buckets per client IP and per route. A bucket holds up to `burst`
+// tokens and refills at `perMinute`; each request takes one token or is
+// rejected with 429. Limits are read from the environment:
+//
+//   RATE_LIMIT_PITCH_PER_MINUTE, RATE_LIMIT_PITCH_BURST
+//   RATE_LIMIT_JUDGE_PER_MINUTE, RATE_LIMIT_JUDGE_BURST
+//   RATE_LIMIT_AUDIT_PER_MINUTE, RATE_LIMIT_AUDIT_BURST
+//   RATE_LIMIT_VOTE_PER_MINUTE, RATE_LIMIT_VOTE_BURST
+//   RATE_LIMIT_BALLOT_PER_MINUTE, RATE_LIMIT_BALLOT_BURST
+//   RATE_LIMIT_DISABLED=true
+//   RATE_LIMIT_TRUSTED_PROXIES=1  (proxies in front of the server, see getClientIp)
+//
+// Buckets live in memory, so each server instance limits on its own. Pass a
+// shared store (e.g. Redis) to setRateLimitStore() to limit across instances.
+
+export type RateLimitedRoute = 'pitch' | 'judge' | 'audit' | 'vote' | 'ballot'
+
+export interface RateLimitRule {
+  perMinute: number // tokens added back per minute
+  burst: number // bucket size
+}
+
+export interface TokenBucket {
+  tokens: number
+  updatedAt: number // ms since epoch
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  retryAfter: number // seconds until the next token, 0 when allowed
+}
+
+// Takes one token from the bucket under `key`. Implementations must do the
+// read and the write atomically.
+export interface RateLimitStore {
+  take(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>
+}
+
+// A six-slot battle plus one retry each fits in the pitch burst
+const DEFAULT_RULES: Record<RateLimitedRoute, RateLimitRule> = {
+  pitch: { perMinute: 30, burst: 12 },
+  judge: { perMinute: 6, burst: 3 },
+  audit: { perMinute: 1, burst: 1 }, // one audit is up to 24 verdicts per judge
+  vote: { perMinute: 6, burst: 3 }, // opening voting sessions
+  ballot: { perMinute: 120, burst: 60 }, // casting votes; a whole room may share one IP
+}
+
+// -----------------------------------------------------------------------------
+// Token Bucket
+// -----------------------------------------------------------------------------
+
+// Refill the bucket for the time since it was last touched, then try to take
+// one token. A missing bucket starts full.
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  rule: RateLimitRule,
+  now: number
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const refillPerMs = rule.perMinute / 60_000
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0
+  const tokens = Math.min(rule.burst, (bucket?.tokens ?? rule.burst) + elapsed * refillPerMs)
+
+  if (tokens >= 1) {
+    return {
+      bucket: { tokens: tokens - 1, updatedAt: now },
+      result: { allowed: true, limit: rule.burst, remaining: Math.floor(tokens - 1), retryAfter: 0 },
+    }
+  }
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed: false,
+      limit: rule.burst,
+      remaining: 0,
+      retryAfter: Math.ceil((1 - tokens) / refillPerMs / 1000),
+    },
+  }
+}
+
+// Idle buckets are dropped once the map grows past MAX_BUCKETS. A dropped
+// bucket comes back full, which at worst forgives a client a partial bucket.
+const MAX_BUCKETS = 10_000
+const IDLE_BUCKET_MS = 10 * 60_000
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket>()
+
+  async take(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+    const { bucket, result } = takeToken(this.buckets.get(key), rule, now)
+    this.buckets.set(key, bucket)
+
+    if (this.buckets.size > MAX_BUCKETS) {
+      this.buckets.forEach((idle, idleKey) => {
+        if (now - idle.updatedAt > IDLE_BUCKET_MS) this.buckets.delete(idleKey)
+      })
+    }
+
+    return result
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore()
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next
+}
+
+// -----------------------------------------------------------------------------
+// Route Helpers
+// -----------------------------------------------------------------------------
+
+function readPositiveNumber(envKey: string, fallback: number): number {
+  const value = Number(process.env[envKey])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function getRateLimitRule(route: RateLimitedRoute): RateLimitRule {
+  const prefix = `RATE_LIMIT_${route.toUpperCase()}`
+  return {
+    perMinute: readPositiveNumber(`${prefix}_PER_MINUTE`, DEFAULT_RULES[route].perMinute),
+    burst: Math.floor(readPositiveNumber(`${prefix}_BURST`, DEFAULT_RULES[route].burst)),
+  }
+}
+
+const DEFAULT_TRUSTED_PROXIES = 1
+
+function getTrustedProxyCount(): number {
+  const value = Number(process.env.RATE_LIMIT_TRUSTED_PROXIES)
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_TRUSTED_PROXIES
+}
+
+// The address the platform reports (request.ip on Vercel), else the
+// X-Forwarded-For hop added by the outermost trusted proxy. Each proxy
+// appends the address it was reached from, so with N trusted proxies the
+// client is N entries from the right; everything to the left of that was sent
+// by the client and can be anything. With no trusted proxies the headers are
+// ignored and every client shares one bucket.
+export function getClientIp(request: Request & { ip?: string }): string {
+  if (request.ip) {
+    return request.ip
+  }
+
+  const trustedProxies = getTrustedProxyCount()
+  if (trustedProxies === 0) {
+    return 'unknown'
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - trustedProxies)]
+  }
+  return request.headers.get('x-real-ip')?.trim() || 'unknown'
+}
+
+// Returns null when rate limiting is disabled
+export async function checkRateLimit(request: Request, route: RateLimitedRoute): Promise<RateLimitResult | null> {
+  if (process.env.RATE_LIMIT_DISABLED?.trim().toLowerCase() === 'true') {
+    return null
+  }
+  return store.take(`${route}:${getClientIp(request)}`, getRateLimitRule(route), Date.now())
+}
+
+export function rateLimitHeaders(result: RateLimitResult | null): Record<string, string> {
+  if (!result) {
+    return {}
+  }
+
+  return {
+    'Access-Control-Expose-Headers': 'Retry-After, x-ratelimit-limit, x-ratelimit-remaining',
+    'x-ratelimit-limit': String(result.limit),
+    'x-ratelimit-remaining': String(result.remaining),
+    ...(result.allowed ? {} : { 'Retry-After': String(result.retryAfter) }),
+  }
+}
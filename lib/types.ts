@@ -2,52 +2,95 @@
 // AI STARTUP BATTLE - TYPE DEFINITIONS
 // =============================================================================
 
+import { isRegisteredProvider, parseSlotId } from './provider-registry'
+
 // -----------------------------------------------------------------------------
 // Model Configuration Types
 // -----------------------------------------------------------------------------
 
-export type AIProvider = 'groq' | 'openai' | 'anthropic'
+// Provider ids are open-ended: any id registered in lib/provider-registry.ts
+// is a valid contestant. The built-in ids are 'groq', 'openai' and 'anthropic'.
+export type AIProvider = string
+
+// A battle slot is one (provider, model) pair, so one provider can enter
+// several models into the same battle. The slot for a provider's configured
+// model is keyed by the bare provider id; any other model is keyed as
+// `${provider}:${modelName}`.
+export type SlotId = string
+
+export interface ContestantSlot {
+  id: SlotId
+  provider: AIProvider
+  modelName?: string // undefined runs the provider's configured model
+  fallbackModels?: string[] // overrides the registry's fallback chain for this slot
+}
+
+// Tailwind only generates these colors' classes because app/globals.css
+// lists them; add a new one there too
+export type ProviderColor =
+  | 'cyan'
+  | 'emerald'
+  | 'orange'
+  | 'violet'
+  | 'pink'
+  | 'sky'
+  | 'amber'
+  | 'lime'
 
 export interface ModelConfig {
   provider: AIProvider
   modelName: string
   displayName: string
   icon: string
-  color: 'cyan' | 'emerald' | 'orange'
+  color: ProviderColor
   temperature?: number
   maxTokens?: number
   topP?: number
 }
 
-export const MODEL_CONFIGS: Record<AIProvider, ModelConfig> = {
-  groq: {
-    provider: 'groq',
-    modelName: 'llama-3.3-70b-versatile',
-    displayName: 'LLAMA 3.3',
-    icon: '⚡',
-    color: 'cyan',
-    temperature: 0.7,
-    maxTokens: 2048,
-  },
-  openai: {
-    provider: 'openai',
-    modelName: 'gpt-4o',
-    displayName: 'GPT-4o',
-    icon: '⬢',
-    color: 'emerald',
-    temperature: 0.7,
-    maxTokens: 2048,
-  },
-  anthropic: {
-    provider: 'anthropic',
-    modelName: 'claude-sonnet-4-20250514',
-    displayName: 'SONNET 4',
-    icon: '▲',
-    color: 'orange',
-    temperature: 0.7,
-    maxTokens: 2048,
-  },
-} as const
+// SDK used on the server to talk to a provider's API. 'openai-compatible'
+// speaks the OpenAI chat-completions protocol to any base URL (Ollama,
+// llama.cpp server, vLLM, ...)
+export type ProviderTransport = 'groq' | 'openai' | 'anthropic' | 'openai-compatible'
+
+// Pitch prompt flavour from lib/prompt-templates.ts
+export type PitchPromptStyle = 'groq' | 'openai' | 'anthropic'
+
+export interface ParamRange {
+  min: number
+  max: number
+}
+
+// Bounds a pitch request may set generation params within
+export interface ModelParamLimits {
+  temperature: ParamRange
+  topP: ParamRange
+  maxTokens: ParamRange
+}
+
+// Settings one pitch is actually generated with, after request overrides
+export interface GenerationParams {
+  modelName: string
+  temperature: number
+  topP: number
+  maxTokens: number
+}
+
+export interface ProviderDescriptor extends ModelConfig {
+  transport: ProviderTransport
+  envKey: string
+  promptStyle: PitchPromptStyle
+  judgeLabel: string // e.g. "GROQ/LLAMA 3.3", used to head the pitch in the judge prompt
+  baseURL?: string // default endpoint; the SDK default when omitted
+  baseURLEnvKey?: string // env var that overrides baseURL
+  modelEnvKey?: string // env var that overrides modelName
+  apiKeyOptional?: boolean // local servers usually run without a key
+  selectedByDefault?: boolean // defaults to true; opt-in contestants set false
+  allowedModels: string[] // models a request may pick; the configured model is always allowed
+  modelDisplayNames?: Record<string, string> // arena labels for the allowed models
+  fallbackModels?: Record<string, string[]> // per model, what to try in order if it errors or is overloaded
+  paramLimits: ModelParamLimits
+}
 
 export const JUDGE_MODEL_CONFIG: ModelConfig = {
   provider: 'anthropic',
@@ -57,8 +100,45 @@ export const JUDGE_MODEL_CONFIG: ModelConfig = {
   color: 'orange',
   temperature: 0.3,
   maxTokens: 1024,
+  topP: 0.9,
 } as const
 
+// Models that can sit on a judging panel, keyed by modelName. Each runs on
+// its provider's transport and credentials; the first is the default judge.
+export const JUDGE_MODELS: ModelConfig[] = [
+  JUDGE_MODEL_CONFIG,
+  {
+    provider: 'anthropic',
+    modelName: 'claude-sonnet-4-20250514',
+    displayName: 'SONNET 4',
+    icon: '▲',
+    color: 'orange',
+    temperature: 0.3,
+    maxTokens: 1024,
+    topP: 0.9,
+  },
+  {
+    provider: 'openai',
+    modelName: 'gpt-4o',
+    displayName: 'GPT-4o',
+    icon: '⬢',
+    color: 'emerald',
+    temperature: 0.3,
+    maxTokens: 1024,
+    topP: 0.9,
+  },
+  {
+    provider: 'groq',
+    modelName: 'llama-3.3-70b-versatile',
+    displayName: 'LLAMA 3.3',
+    icon: '⚡',
+    color: 'cyan',
+    temperature: 0.3,
+    maxTokens: 1024,
+    topP: 0.9,
+  },
+]
+
 // -----------------------------------------------------------------------------
 // Pitch Request/Response Interfaces
 // -----------------------------------------------------------------------------
@@ -68,6 +148,7 @@ export interface PitchRequest {
   userGroup: string
   provider: AIProvider
   modelConfig?: Partial<ModelConfig>
+  fallbackModels?: string[]
 }
 
 export interface PitchResponse {
@@ -78,23 +159,28 @@ export interface PitchResponse {
   timestamp: string
   metadata?: {
     tokensUsed?: number
-    processingTime?: number
-    modelVersion?: string
+    processingTime?: number // ms
+    modelVersion?: string // model that produced the pitch
+    fallbackFrom?: string // requested model, if a fallback produced it
+    usage?: UsageReport
+    finishReason?: PitchFinishReason
   }
 }
 
-export interface PitchState {
-  groq: PitchResponse
-  openai: PitchResponse
-  anthropic: PitchResponse
-}
+export type PitchState = Record<SlotId, PitchResponse>
+
+export type PitchContent = Record<SlotId, string>
 
-export interface PitchContent {
-  groq: string
-  openai: string
-  anthropic: string
+// What the arena learned about each finished pitch besides its text
+export interface PitchResult {
+  modelName?: string // model that produced the pitch
+  fallbackFrom?: string // requested model, if a fallback produced it
+  usage?: UsageReport
+  finishReason?: PitchFinishReason
 }
 
+export type PitchResults = Record<SlotId, PitchResult>
+
 // -----------------------------------------------------------------------------
 // Judge Request/Response Interfaces
 // -----------------------------------------------------------------------------
@@ -103,50 +189,226 @@ export interface JudgeRequest {
   concept: string
   userGroup: string
   pitches: PitchContent
+  truncated?: SlotId[] // pitches the server deadline cut off mid-generation
   criteria?: JudgingCriteria
-}
-
+  panel?: JudgePanelConfig // defaults to JUDGE_MODEL_CONFIG judging alone
+  blind?: boolean // anonymize and shuffle the pitches, see lib/blind-judging.ts
+  blindSeed?: number // uint32 shuffle seed; random when omitted
+  mode?: JudgingMode // defaults to 'scorecard'
+  ranking?: PairwiseRanking // pairwise mode only; defaults to 'bradley-terry'
+  tieBreak?: TieBreakRule // defaults to 'declared'
+}
+
+// 'scorecard' scores every pitch on the criteria in one prompt; 'pairwise'
+// asks which of two pitches is more fundable for every pair, then ranks the
+// pitches from those outcomes (see lib/pairwise-ranking.ts)
+export type JudgingMode = 'scorecard' | 'pairwise'
+
+// How pairwise outcomes become scores: 'bradley-terry' fits a strength per
+// pitch and scores its expected win rate against the others; 'copeland'
+// scores the share of head-to-head matchups it won
+export type PairwiseRanking = 'bradley-terry' | 'copeland'
+
+// How pitches level on the top score are separated: 'declared' favors the
+// one the judges named as winner (most picks across a panel), 'breakdown'
+// the one ahead on the most heavily weighted criterion (then the next, and
+// so on; scorecard mode only), and 'runoff' asks the first judge to choose
+// between the tied pitches. When the rule cannot separate them the tie
+// stands and the pitches share the win.
+export type TieBreakRule = 'declared' | 'breakdown' | 'runoff'
+
+// How a blind verdict's pitches were presented to the judges
+export interface BlindJudging {
+  seed?: number // undefined when the order was set explicitly (position audits)
+  order: SlotId[] // slots in the order the judges saw them
+  labels: Record<SlotId, string> // the letter each slot was shown as, 'A', 'B', ...
+}
+
+// How a panel's verdicts become one: 'mean' and 'median' combine each
+// criterion score across judges, 'majority' crowns the pitch most judges
+// picked (mean scores break a tie)
+export type JudgeAggregation = 'mean' | 'median' | 'majority'
+
+export interface JudgePanelConfig {
+  judges: string[] // JUDGE_MODELS model names
+  aggregation: JudgeAggregation
+}
+
+// The five criteria the judge scores every pitch on
 export interface JudgingCriteria {
   marketViability: number // Weight 0-1
   innovation: number // Weight 0-1
-  feasibility: number // Weight 0-1
-  presentation: number // Weight 0-1
-  monetization: number // Weight 0-1
+  monetizationClarity: number // Weight 0-1
+  tamAccuracy: number // Weight 0-1
+  pitchQuality: number // Weight 0-1
 }
 
+export type JudgingCriterion = keyof JudgingCriteria
+
+export type CriterionScores = Record<JudgingCriterion, number> // 1-10 each
+
 export interface JudgeScore {
-  provider: AIProvider
-  score: number // 1-10
-  breakdown: {
-    marketViability: number
-    innovation: number
-    feasibility: number
-    presentation: number
-    monetization: number
-  }
+  slot: SlotId
+  score: number // 1-10, one decimal: weighted from breakdown, or the pairwise win rate
+  breakdown?: CriterionScores // scorecard mode only
+  reasoning: string
+}
+
+// One judge's own scorecard
+export interface JudgePanelVerdict {
+  judge: string // model name
+  scores: Record<SlotId, JudgeScore>
+  winner: SlotId // the pitch the judge named as winner
+  winnerMismatch?: boolean // set when that pitch is not among its top scores
+  reasoning: string
+  usage?: UsageReport
+}
+
+export interface JudgePanelFailure {
+  judge: string
+  code: string
+  message: string
+}
+
+// One head-to-head call by one judge
+export interface PairwiseComparison {
+  judge: string
+  shown: [SlotId, SlotId] // in the order the judge saw them
+  winner: SlotId
   reasoning: string
 }
 
+export interface PairwiseStanding {
+  wins: number // comparisons won, over every judge
+  losses: number
+  copeland: number // matchups won (1) or split evenly between judges (0.5)
+  strength: number // Bradley-Terry strength; all pitches' strengths sum to 1
+}
+
+export interface PairwiseResult {
+  ranking: PairwiseRanking
+  comparisons: PairwiseComparison[]
+  standings: Record<SlotId, PairwiseStanding> // pooled over the panel
+}
+
+export interface JudgeTie {
+  tied: SlotId[] // the pitches level on the top score
+  rule: TieBreakRule
+  winners: SlotId[] // the one the rule picked, or all of tied when it stands
+  runoff?: { judge: string; reasoning: string } // the run-off call, when one was made
+}
+
+export interface JudgePanelResult {
+  aggregation: JudgeAggregation
+  verdicts: JudgePanelVerdict[]
+  failed: JudgePanelFailure[] // judges that errored; the rest still decide
+  winnerVotes: Record<SlotId, number> // how many judges picked each pitch
+  agreement?: number // 0-1 pairwise ranking agreement, undefined for a lone judge
+}
+
 export interface JudgeResponse {
   id: string
-  scores: Record<AIProvider, JudgeScore>
-  winner: AIProvider
+  scores: Record<SlotId, JudgeScore> // aggregated across the panel
+  winner: SlotId // the first co-winner when a tie stands
   overallReasoning: string
+  criteria: JudgingCriteria // weights the overall scores were computed with
+  panel: JudgePanelResult
+  tie?: JudgeTie // set when pitches were level on the top score
+  blind?: BlindJudging // set when the pitches were judged blind
+  mode: JudgingMode
+  pairwise?: PairwiseResult // set in pairwise mode
   timestamp: string
   metadata?: {
     tokensUsed?: number
-    processingTime?: number
-    confidence?: number
+    processingTime?: number // ms
+    confidence?: number // the panel's agreement
+    usage?: UsageReport // summed over the panel
   }
 }
 
 export interface JudgeState {
-  scores: Record<AIProvider, number> | null
-  winner: AIProvider | null
+  scores: Record<SlotId, number> | null
+  winner: SlotId | null
   isComplete: boolean
   reasoning?: string
 }
 
+// -----------------------------------------------------------------------------
+// Position Audit Types
+// -----------------------------------------------------------------------------
+
+// POST /api/judge/audit takes a JudgeRequest and re-judges it under every
+// presentation order (or every rotation, for big battles)
+export type PositionAuditCoverage = 'permutations' | 'rotations'
+
+export interface PositionAuditRun {
+  order: SlotId[] // as presented to the judges
+  winner?: SlotId
+  coWinners?: SlotId[] // set when a tie stood; winner is the first of them
+  scores?: Record<SlotId, number>
+  error?: { code: string; message: string } // failed runs are left out of the stats
+}
+
+export interface PositionAuditSlotStats {
+  meanScore: number
+  minScore: number
+  maxScore: number
+  stdDev: number
+  wins: number // a shared win counts for every co-winner
+  meanScoreByPosition: Array<number | null> // index 0 is shown first; null if never shown there
+}
+
+export interface PositionAuditReport {
+  id: string
+  coverage: PositionAuditCoverage
+  partial: boolean // true for rotations: runs cover only some of the possibleOrders
+  possibleOrders: number // every permutation of the pitches
+  judges: string[]
+  aggregation: JudgeAggregation
+  criteria: JudgingCriteria
+  blind: boolean
+  runs: PositionAuditRun[]
+  slots: Record<SlotId, PositionAuditSlotStats>
+  winnerStability: number // 0-1, share of completed runs won by the most frequent winner
+  maxScoreRange: number // largest max - min score any pitch got across runs
+  positionBias: number[] // per position, mean score shown there minus the overall mean
+  timestamp: string
+  metadata: {
+    processingTime: number // ms
+    usage: UsageReport
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Audience Voting Types
+// -----------------------------------------------------------------------------
+
+// POST /api/vote opens a voting session for a battle's pitches; attendees
+// vote at /vote/<code>, one vote per device (see lib/audience-votes.ts)
+export interface VoteSessionRequest {
+  concept: string
+  userGroup: string
+  slots: SlotId[] // the pitches to vote on, in the order to list them
+}
+
+export interface AudienceTally {
+  code: string // short code in the voting URL
+  concept: string
+  userGroup: string
+  slots: SlotId[]
+  votes: Record<SlotId, number>
+  totalVotes: number
+  open: boolean
+  closesAt: string // when voting closes unless the host closes it first
+  myVote?: SlotId // the requesting device's vote, once it has voted
+}
+
+// Returned once, to the host that opened the session
+export interface VoteSessionCreated extends AudienceTally {
+  url: string // the voting page attendees open
+  hostToken: string // closes voting: PATCH /api/vote/<code> with Authorization: Bearer <hostToken>
+}
+
 // -----------------------------------------------------------------------------
 // Streaming Response Types
 // -----------------------------------------------------------------------------
@@ -159,6 +421,99 @@ export interface StreamingChunk {
   timestamp: string
 }
 
+export interface TokenUsage {
+  inputTokens?: number
+  outputTokens?: number
+  totalTokens?: number
+}
+
+// Token usage priced with lib/pricing.ts
+export interface UsageReport extends TokenUsage {
+  costUSD?: number // undefined when the model has no pricing entry
+}
+
+// 'timeout' means the server deadline cut the pitch off; the text so far is
+// returned as a partial pitch
+export type PitchFinishReason = 'stop' | 'length' | 'content-filter' | 'error' | 'timeout' | 'other'
+
+// Pitch wire protocol: every /api/pitch/[provider] response is a
+// text/event-stream of `data: <PitchWireEvent JSON>` frames, see lib/pitch-stream.ts
+export interface PitchStartEvent {
+  type: 'start'
+  id: string
+  provider: AIProvider
+  params: GenerationParams // params.modelName is the model that actually serves the pitch
+  fallbackFrom?: string // the requested model, when a fallback is serving instead
+  timestamp: string
+}
+
+export interface PitchTextDeltaEvent {
+  type: 'text-delta'
+  chunk: StreamingChunk
+}
+
+export interface PitchUsageEvent {
+  type: 'usage'
+  usage: UsageReport
+}
+
+export interface PitchFinishEvent {
+  type: 'finish'
+  finishReason: PitchFinishReason
+  timestamp: string
+}
+
+export interface PitchStreamErrorEvent {
+  type: 'error'
+  error: APIError
+}
+
+export type PitchWireEvent =
+  | PitchStartEvent
+  | PitchTextDeltaEvent
+  | PitchUsageEvent
+  | PitchFinishEvent
+  | PitchStreamErrorEvent
+
+// Judge wire protocol: POST /api/judge answers with a text/event-stream of
+// `data: <JudgeWireEvent JSON>` frames when the request accepts one
+export interface JudgeStartEvent {
+  type: 'start'
+  judges: string[] // model names, in panel order
+  blind?: BlindJudging // which contestant each lettered pitch is
+  timestamp: string
+}
+
+// More of one judge's reasoning, as it is written
+export interface JudgeReasoningDeltaEvent {
+  type: 'reasoning-delta'
+  judge: string
+  text: string
+}
+
+// The judge's output failed the verdict schema and it is answering again;
+// the reasoning streamed for it so far is discarded
+export interface JudgeRetryEvent {
+  type: 'retry'
+  judge: string
+  attempt: number // 2 for the first repair
+}
+
+export interface JudgeVerdictEvent {
+  type: 'verdict'
+  verdict: JudgeResponse
+}
+
+export interface JudgeStreamErrorEvent {
+  type: 'error'
+  error: APIError
+}
+
+// What the pipeline reports while the judges deliberate
+export type JudgeProgressEvent = JudgeStartEvent | JudgeReasoningDeltaEvent | JudgeRetryEvent
+
+export type JudgeWireEvent = JudgeProgressEvent | JudgeVerdictEvent | JudgeStreamErrorEvent
+
 export interface StreamingResponse {
   status: 'pending' | 'streaming' | 'complete' | 'error'
   chunks: StreamingChunk[]
@@ -166,14 +521,12 @@ export interface StreamingResponse {
   error?: APIError
 }
 
-export type StreamingState = {
-  [K in AIProvider]: {
-    content: string
-    isComplete: boolean
-    isStreaming: boolean
-    error?: APIError
-  }
-}
+export type StreamingState = Record<SlotId, {
+  content: string
+  isComplete: boolean
+  isStreaming: boolean
+  error?: APIError
+}>
 
 // -----------------------------------------------------------------------------
 // Error Response Types
@@ -206,6 +559,20 @@ export interface ModelError extends APIError {
   fallbackAvailable: boolean
 }
 
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN'
+
+// Snapshot of one server-side circuit breaker, as reported by /api/health
+export interface CircuitBreakerStatus {
+  state: CircuitState
+  failureCount: number
+  resetAt?: string // when an open breaker lets a trial request through
+}
+
+export interface CircuitBreakerReport {
+  providers: Record<AIProvider, CircuitBreakerStatus>
+  judges: Record<string, CircuitBreakerStatus> // keyed by judge model name
+}
+
 // -----------------------------------------------------------------------------
 // Application State Types
 // -----------------------------------------------------------------------------
@@ -214,13 +581,21 @@ export type AppPhase = 'spinning' | 'revealing' | 'battling' | 'judging'
 
 export type AppState =
   | { phase: 'spinning' }
-  | { phase: 'revealing'; concept: string; userGroup: string }
-  | { phase: 'battling'; concept: string; userGroup: string }
+  | { phase: 'revealing'; concept: string; userGroup: string; contestants: ContestantSlot[]; criteria: JudgingCriteria; panel: JudgePanelConfig; blind: boolean; mode: JudgingMode; tieBreak: TieBreakRule; audience: boolean }
+  | { phase: 'battling'; concept: string; userGroup: string; contestants: ContestantSlot[]; criteria: JudgingCriteria; panel: JudgePanelConfig; blind: boolean; mode: JudgingMode; tieBreak: TieBreakRule; audience: boolean }
   | {
       phase: 'judging'
       concept: string
       userGroup: string
+      contestants: ContestantSlot[]
+      criteria: JudgingCriteria
+      panel: JudgePanelConfig
+      blind: boolean
+      mode: JudgingMode
+      tieBreak: TieBreakRule
+      audience: boolean
       pitches: PitchContent
+      pitchResults: PitchResults
     }
 
 // -----------------------------------------------------------------------------
@@ -230,7 +605,8 @@ export type AppState =
 export interface BattleArenaProps {
   concept: string
   userGroup: string
-  onPitchesComplete: (pitches: PitchContent) => void
+  contestants: ContestantSlot[]
+  onPitchesComplete: (pitches: PitchContent, results: PitchResults) => void
   readonly?: boolean
   enableRealAPI?: boolean
 }
@@ -261,19 +637,44 @@ export interface APIConfig {
   retryDelay: number
 }
 
-export interface ProviderAPIConfig {
-  groq: {
-    apiKey: string
-    baseURL: string
-  }
-  openai: {
-    apiKey: string
-    baseURL: string
-    organization?: string
+export interface ProviderConnection {
+  apiKey?: string
+  baseURL?: string
+  modelName: string
+}
+
+export type ProviderAPIConfig = Record<AIProvider, ProviderConnection>
+
+// -----------------------------------------------------------------------------
+// Health Check Types
+// -----------------------------------------------------------------------------
+
+// 'not-configured': a keyless provider (a local server) whose base URL is not set
+export type ServiceStatus = 'available' | 'unavailable' | 'no-key' | 'not-configured' | 'circuit-open'
+
+// Outcome of sending one minimal completion to a model (/api/health?deep=1)
+export interface ModelProbeResult {
+  ok: boolean
+  model: string // model the probe asked for
+  resolvedModel?: string // model id the provider says answered
+  latencyMs: number
+  errorCode?: string // details are logged on the server, not exposed here
+  checkedAt: string // probes are cached, so this may be older than the response
+}
+
+export interface HealthCheckResponse {
+  status: 'healthy' | 'degraded' | 'unhealthy'
+  timestamp: string
+  apiKeys: Record<string, boolean> // keyed by env var name, e.g. GROQ_API_KEY
+  services: Record<AIProvider, ServiceStatus>
+  circuitBreakers: CircuitBreakerReport
+  probes?: { // deep checks only; providers without credentials or configuration are not probed
+    providers: Record<AIProvider, ModelProbeResult>
+    judge?: ModelProbeResult
   }
-  anthropic: {
-    apiKey: string
-    baseURL: string
+  environment: {
+    nodeEnv: string
+    platform: string
   }
 }
 
@@ -329,15 +730,48 @@ export type BattleEvent =
 export const DEFAULT_JUDGING_CRITERIA: JudgingCriteria = {
   marketViability: 0.25,
   innovation: 0.2,
-  feasibility: 0.2,
-  presentation: 0.2,
-  monetization: 0.15,
+  monetizationClarity: 0.15,
+  tamAccuracy: 0.2,
+  pitchQuality: 0.2,
+} as const
+
+// In the order the judge prompt lists them
+export const JUDGING_CRITERION_LABELS: Record<JudgingCriterion, string> = {
+  marketViability: 'MARKET VIABILITY',
+  innovation: 'INNOVATION',
+  monetizationClarity: 'MONETIZATION CLARITY',
+  tamAccuracy: 'TAM ACCURACY',
+  pitchQuality: 'PITCH QUALITY',
+}
+
+export const DEFAULT_JUDGE_PANEL: JudgePanelConfig = {
+  judges: [JUDGE_MODEL_CONFIG.modelName],
+  aggregation: 'mean',
+}
+
+export const JUDGE_PANEL_LIMITS = {
+  min: 1,
+  max: 4,
+} as const
+
+// A battle runs anything from a 1v1 duel to a six-model free-for-all
+export const CONTESTANT_LIMITS = {
+  min: 2,
+  max: 6,
 } as const
 
 export const API_TIMEOUTS = {
-  pitch: 30000, // 30 seconds
-  judge: 15000, // 15 seconds
-  stream: 60000, // 60 seconds
+  firstToken: 10000, // 10 seconds - server deadline for a pitch's first token
+  pitch: 30000, // 30 seconds - server deadline for a whole pitch
+  judge: 15000, // 15 seconds - server deadline for each judge model call
+  stream: 60000, // 60 seconds - how long clients wait on a pitch stream
+} as const
+
+// Model calls behind one judge's verdict: extra attempts when its output
+// fails validation, and head-to-head matchups it decides at once
+export const JUDGE_CALL_LIMITS = {
+  repairAttempts: 2,
+  pairwiseConcurrency: 3,
 } as const
 
 export const RETRY_CONFIG = {
@@ -346,12 +780,23 @@ export const RETRY_CONFIG = {
   backoffMultiplier: 2,
 } as const
 
+// Consecutive failures before a provider or judge is cut off, and how long
+// (ms) it stays cut off before one trial request is let through
+export const CIRCUIT_BREAKER_CONFIG = {
+  failureThreshold: 3,
+  resetTimeout: 30000,
+} as const
+
 // -----------------------------------------------------------------------------
 // Type Guards
 // -----------------------------------------------------------------------------
 
-export function isAIProvider(value: string): value is AIProvider {
-  return ['groq', 'openai', 'anthropic'].includes(value)
+export function isAIProvider(value: any): value is AIProvider {
+  return typeof value === 'string' && isRegisteredProvider(value)
+}
+
+export function isSlotId(value: any): value is SlotId {
+  return typeof value === 'string' && parseSlotId(value) !== undefined
 }
 
 export function isAPIError(error: any): error is APIError {
@@ -368,25 +813,25 @@ export function isAPIError(error: any): error is APIError {
 export function isValidationError(error: any): error is ValidationError {
   return (
     isAPIError(error) &&
-    typeof error.field === 'string' &&
-    Array.isArray(error.constraints)
+    typeof (error as ValidationError).field === 'string' &&
+    Array.isArray((error as ValidationError).constraints)
   )
 }
 
 export function isRateLimitError(error: any): error is RateLimitError {
   return (
     isAPIError(error) &&
-    typeof error.retryAfter === 'number' &&
-    typeof error.remainingRequests === 'number'
+    typeof (error as RateLimitError).retryAfter === 'number' &&
+    typeof (error as RateLimitError).remainingRequests === 'number'
   )
 }
 
 export function isModelError(error: any): error is ModelError {
   return (
     isAPIError(error) &&
-    typeof error.modelName === 'string' &&
-    isAIProvider(error.modelProvider) &&
-    typeof error.fallbackAvailable === 'boolean'
+    typeof (error as ModelError).modelName === 'string' &&
+    isAIProvider((error as ModelError).modelProvider) &&
+    typeof (error as ModelError).fallbackAvailable === 'boolean'
   )
 }
 
@@ -408,7 +853,7 @@ export function isJudgeResponse(value: any): value is JudgeResponse {
     typeof value === 'object' &&
     typeof value.id === 'string' &&
     typeof value.scores === 'object' &&
-    isAIProvider(value.winner) &&
+    isSlotId(value.winner) &&
     typeof value.overallReasoning === 'string' &&
     typeof value.timestamp === 'string'
   )
@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+
+/**
+ * AI Startup Battle - Judge Position-Bias Audit
+ *
+ * Sends a saved set of pitches to POST /api/judge/audit, which re-judges them
+ * under every presentation order, and prints how much the scores and winner
+ * moved. The input file is a /api/judge request body:
+ *
+ *   { "concept": "...", "userGroup": "...", "pitches": { "groq": "...", "openai": "..." },
+ *     "criteria": { ... }, "panel": { ... }, "blind": false }
+ *
+ * Usage: node scripts/audit-judge.js <pitches.json> [--base-url http://localhost:3000] [--json]
+ */
+
+const path = require('path');
+const fs = require('fs');
+
+// ANSI color codes for terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  white: '\x1b[37m'
+};
+
+// An audit is up to 24 verdicts per judge
+const AUDIT_TIMEOUT = 10 * 60 * 1000;
+
+function log(message, color = 'white') {
+  console.log(colors[color] + message + colors.reset);
+}
+
+function logHeader(message) {
+  console.log('\n' + colors.bright + colors.blue + '='.repeat(60) + colors.reset);
+  console.log(colors.bright + colors.blue + message + colors.reset);
+  console.log(colors.bright + colors.blue + '='.repeat(60) + colors.reset);
+}
+
+function parseArgs(argv) {
+  const args = { file: null, baseURL: process.env.AUDIT_BASE_URL || 'http://localhost:3000', json: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--base-url') {
+      args.baseURL = argv[++i];
+    } else if (argv[i] === '--json') {
+      args.json = true;
+    } else {
+      args.file = argv[i];
+    }
+  }
+  return args;
+}
+
+function formatSigned(value) {
+  return (value > 0 ? '+' : '') + value.toFixed(2);
+}
+
+function printReport(report) {
+  logHeader(`Position audit: ${report.runs.length} orders (${report.coverage}), judges ${report.judges.join(', ')}`);
+
+  if (report.partial) {
+    log(`⚠️  Partial audit: only ${report.runs.length} of the ${report.possibleOrders} possible orders were judged (one rotation each)`, 'yellow');
+  }
+
+  const failedRuns = report.runs.filter(run => run.error);
+  if (failedRuns.length > 0) {
+    log(`⚠️  ${failedRuns.length} order(s) failed and are left out: ${failedRuns.map(run => run.error.code).join(', ')}`, 'yellow');
+  }
+
+  const completed = report.runs.length - failedRuns.length;
+  const stabilityColor = report.winnerStability === 1 ? 'green' : report.winnerStability >= 0.75 ? 'yellow' : 'red';
+  log(`Winner stability: ${Math.round(report.winnerStability * 100)}% of ${completed} runs`, stabilityColor);
+  log(`Largest score range for one pitch: ${report.maxScoreRange.toFixed(1)} points`, report.maxScoreRange >= 1 ? 'yellow' : 'green');
+  log(`Score shift by position (1st, 2nd, ...): ${report.positionBias.map(formatSigned).join('  ')}`, 'cyan');
+
+  console.log('');
+  for (const [slot, stats] of Object.entries(report.slots)) {
+    log(`${slot}`, 'bright');
+    log(`  mean ${stats.meanScore.toFixed(2)}  range ${stats.minScore}-${stats.maxScore}  sd ${stats.stdDev.toFixed(2)}  wins ${stats.wins}/${completed}`);
+    log(`  mean by position: ${stats.meanScoreByPosition.map(score => (score === null ? '-' : score.toFixed(2))).join('  ')}`);
+  }
+
+  const cost = report.metadata.usage.costUSD;
+  console.log('');
+  log(`Took ${(report.metadata.processingTime / 1000).toFixed(1)}s, ${report.metadata.usage.totalTokens ?? 0} tokens${cost !== undefined ? `, $${cost.toFixed(2)}` : ''}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.file) {
+    log('Usage: node scripts/audit-judge.js <pitches.json> [--base-url http://localhost:3000] [--json]', 'yellow');
+    process.exit(1);
+  }
+
+  const body = JSON.parse(fs.readFileSync(path.resolve(args.file), 'utf8'));
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), AUDIT_TIMEOUT);
+
+  try {
+    const response = await fetch(`${args.baseURL}/api/judge/audit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      log(`❌ Audit failed (${response.status} ${data.code}): ${data.message}`, 'red');
+      process.exit(1);
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify(data, null, 2));
+    } else {
+      printReport(data);
+    }
+  } catch (error) {
+    log(`❌ ${error.name === 'AbortError' ? 'Audit timed out' : error.message}`, 'red');
+    process.exit(1);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+main();
@@ -177,7 +177,7 @@ async function makeRequest(endpoint, testData) {
       statusText: response.statusText,
       headers: Object.fromEntries(response.headers.entries()),
       data: responseData,
-      isStreaming: contentType && contentType.includes('text/plain')
+      isStreaming: contentType && contentType.includes('text/event-stream')
     };
   } catch (error) {
     clearTimeout(timeoutId);
@@ -221,8 +221,27 @@ async function testEndpoint(endpoint) {
         analysis.errorCode = result.data.code;
         analysis.errorMessage = result.data.message;
       } else if (typeof result.data === 'string') {
-        analysis.hasContent = result.data.length > 0;
+        // Pitch stream: one `data: <event JSON>` frame per event
+        const events = result.data
+          .split('\n\n')
+          .filter(frame => frame.startsWith('data:'))
+          .map(frame => {
+            try {
+              return JSON.parse(frame.slice(5).trim());
+            } catch {
+              return null;
+            }
+          })
+          .filter(Boolean);
+        const errorEvent = events.find(event => event.type === 'error');
+
+        analysis.hasContent = events.some(event => event.type === 'text-delta');
         analysis.isStreaming = true;
+        if (errorEvent) {
+          analysis.hasError = true;
+          analysis.errorCode = errorEvent.error.code;
+          analysis.errorMessage = errorEvent.error.message;
+        }
       }
     }
 